@@ -1,15 +1,36 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import ChatPanel from './components/ChatPanel';
 import ResultsPanel from './components/ResultsPanel';
 import Header from './components/Header';
 import Footer from './components/Footer';
-import { TravelPlan } from './types';
-import { extractTravelInfo, generateOutfitSuggestions } from './services/openai';
-import { getWeatherForecast } from './services/weather';
-import { searchProducts } from './services/shopping';
+import PlanHistory from './components/PlanHistory';
+import StoreSettings from './components/StoreSettings';
+import StyleProfileEditor from './components/StyleProfileEditor';
+import Wishlist from './components/Wishlist';
+import ShareDialog from './components/ShareDialog';
+import WardrobeManager from './components/WardrobeManager';
+import { ChatMessage, OutfitFilters, Place, TravelPlan, UsageLimit } from './types';
+import { extractTravelInfo } from './services/openai';
+import {
+  applyFilters,
+  buildConversationContext,
+  createPlan,
+  PlaceNotListedError,
+  refreshOutfit,
+  replaceOutfit,
+} from './services/planner';
 import { MessageCircle, X } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { supabase } from './services/supabase';
+import { subscribeUsageLimits, supabase, UsageLimitError } from './services/supabase';
+import { savePlan } from './services/plans';
+import { useWishlist } from './hooks/useWishlist';
+
+// A destination the planner is waiting on the user to pin down
+interface PlaceChoice {
+  candidates: Place[];
+  resolve: (place: Place) => void;
+  reject: (error: Error) => void;
+}
 
 function App() {
   const [travelPlan, setTravelPlan] = useState<TravelPlan | null>(null);
@@ -18,6 +39,19 @@ function App() {
   const [hasInteracted, setHasInteracted] = useState(false);
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [filters, setFilters] = useState<OutfitFilters>({ occasions: [] });
+  const [isApplyingFilters, setIsApplyingFilters] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isStoreSettingsOpen, setIsStoreSettingsOpen] = useState(false);
+  const [isStyleProfileOpen, setIsStyleProfileOpen] = useState(false);
+  const [isWishlistOpen, setIsWishlistOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isWardrobeOpen, setIsWardrobeOpen] = useState(false);
+  const [usageLimit, setUsageLimit] = useState<UsageLimit | null>(null);
+  const [placeChoice, setPlaceChoice] = useState<PlaceChoice | null>(null);
+  // Last plan written to saved_plans, so reopening a saved plan does not write it back
+  const savedPlan = useRef<TravelPlan | null>(null);
+  const wishlist = useWishlist(isAuthenticated);
 
   useEffect(() => {
     // Handle OAuth redirect
@@ -55,62 +89,49 @@ function App() {
     return () => subscription.unsubscribe();
   }, []);
 
+  // A styling limit stops the chat, so a search or image limit reached later does not replace it
+  useEffect(() => subscribeUsageLimits(error => {
+    setUsageLimit(current => {
+      const chatStopped = current?.limit === 'llmTokens' && new Date(current.resetsAt) > new Date();
+      return chatStopped ? current : { message: error.message, limit: error.limit, resetsAt: error.resetsAt };
+    });
+  }), []);
+
   useEffect(() => {
     if (isLoading) {
       setIsChatOpen(false); // Close chat when loading starts
     }
   }, [isLoading]);
 
-  const handleChatSubmit = async (message: string) => {
+  // Persist finished plans, and again after outfits are refreshed or restyled
+  useEffect(() => {
+    if (!travelPlan || !isAuthenticated || travelPlan === savedPlan.current) return;
+    if (travelPlan.status !== 'success' && travelPlan.status !== 'warning') return;
+
+    savedPlan.current = travelPlan;
+    savePlan(travelPlan).catch(error => console.error('Error saving plan:', error));
+  }, [travelPlan, isAuthenticated]);
+
+  const handleChatSubmit = async (message: string, history: ChatMessage[], photo?: string) => {
     if (!hasInteracted) setHasInteracted(true);
     setIsLoading(true);
+    let keepChatOpen = false;
     
     try {
-      const info = await extractTravelInfo(message);
-      
-      if (info.type === 'travel') {
-        const weatherData = await getWeatherForecast(info.destination!, info.date!);
-        const warning = weatherData.warning;
-        
-        const outfitSuggestions = await generateOutfitSuggestions({ weather: weatherData });
-        
-        const outfitsWithProducts = await Promise.all(
-          outfitSuggestions.map(async (outfit: any) => ({
-            ...outfit,
-            products: await searchProducts(outfit)
-          }))
-        );
-        
-        setTravelPlan({
-          id: Math.random().toString(36).substring(2, 9),
-          destination: info.destination!,
-          date: weatherData.date,
-          weather: weatherData,
-          outfits: outfitsWithProducts,
-          status: warning ? 'warning' : 'success',
-          warning,
-          type: 'travel'
-        });
-      } else {
-        const outfitSuggestions = await generateOutfitSuggestions({ event: info.event });
-        
-        const outfitsWithProducts = await Promise.all(
-          outfitSuggestions.map(async (outfit: any) => ({
-            ...outfit,
-            products: await searchProducts(outfit)
-          }))
-        );
-        
-        setTravelPlan({
-          id: Math.random().toString(36).substring(2, 9),
-          event: info.event!,
-          outfits: outfitsWithProducts,
-          status: 'success',
-          type: 'event'
-        });
-      }
+      // Follow-ups like "make it more casual" are resolved against the chat and the plan on screen
+      const context = buildConversationContext(history, travelPlan);
+      const info = await extractTravelInfo(message, context, photo);
+      // A new photo is shown with the looks styled around it; refinements keep the plan's photo
+      const showPlan = (plan: TravelPlan) => setTravelPlan(photo ? { ...plan, photo } : plan);
+      showPlan(await createPlan(info, filters, showPlan, { plan: travelPlan, context, choosePlace }));
     } catch (error: any) {
       console.error('Error processing request:', error);
+      if (error instanceof UsageLimitError || error instanceof PlaceNotListedError) {
+        // Shown in the chat, which stays open, and the plan from before the request comes back
+        keepChatOpen = true;
+        setTravelPlan(travelPlan);
+        return;
+      }
       setTravelPlan({
         id: Math.random().toString(36).substring(2, 9),
         status: 'error',
@@ -119,10 +140,56 @@ function App() {
       });
     } finally {
       setIsLoading(false);
-      setIsChatOpen(false); // Close chat after outfit generation completes
+      setIsChatOpen(keepChatOpen); // Close chat after outfit generation completes
+    }
+  };
+
+  // Reopens the chat with the candidates; planning resumes once one is picked
+  const choosePlace = (candidates: Place[]) =>
+    new Promise<Place>((resolve, reject) => {
+      setPlaceChoice({ candidates, resolve, reject });
+      setIsChatOpen(true);
+    });
+
+  const handleChoosePlace = (place: Place | null) => {
+    if (!placeChoice) return;
+    setPlaceChoice(null);
+    if (place) {
+      placeChoice.resolve(place);
+      setIsChatOpen(false);
+    } else {
+      placeChoice.reject(new PlaceNotListedError());
     }
   };
 
+  const handleRefreshOutfit = async (outfitId: string) => {
+    if (!travelPlan) return;
+
+    const replacement = await refreshOutfit(travelPlan, outfitId);
+    setTravelPlan(prev => (prev && prev.id === travelPlan.id ? replaceOutfit(prev, replacement, outfitId) : prev));
+  };
+
+  const handleFiltersChange = async (nextFilters: OutfitFilters) => {
+    setFilters(nextFilters);
+    if (!travelPlan?.outfits) return;
+
+    setIsApplyingFilters(true);
+    try {
+      const filteredPlan = await applyFilters(travelPlan, nextFilters);
+      setTravelPlan(prev => (prev && prev.id === travelPlan.id ? filteredPlan : prev));
+    } catch (error) {
+      console.error('Error applying filters:', error);
+    } finally {
+      setIsApplyingFilters(false);
+    }
+  };
+
+  const handleOpenSavedPlan = (plan: TravelPlan) => {
+    savedPlan.current = plan;
+    setHasInteracted(true);
+    setTravelPlan(plan);
+  };
+
   const toggleChat = () => {
     if (!isAuthenticated) {
       setShowAuthModal(true);
@@ -137,7 +204,42 @@ function App() {
 
   return (
     <div className="min-h-screen bg-white">
-      <Header showAuthModal={showAuthModal} onCloseAuthModal={() => setShowAuthModal(false)} />
+      <Header
+        showAuthModal={showAuthModal}
+        onCloseAuthModal={() => setShowAuthModal(false)}
+        onOpenHistory={() => setIsHistoryOpen(true)}
+        onOpenStoreSettings={() => setIsStoreSettingsOpen(true)}
+        onOpenStyleProfile={() => setIsStyleProfileOpen(true)}
+        onOpenWishlist={() => setIsWishlistOpen(true)}
+        onOpenWardrobe={() => setIsWardrobeOpen(true)}
+      />
+      <PlanHistory
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        onSelect={handleOpenSavedPlan}
+      />
+      <StoreSettings
+        isOpen={isStoreSettingsOpen}
+        onClose={() => setIsStoreSettingsOpen(false)}
+      />
+      <StyleProfileEditor
+        isOpen={isStyleProfileOpen}
+        onClose={() => setIsStyleProfileOpen(false)}
+      />
+      <Wishlist
+        isOpen={isWishlistOpen}
+        onClose={() => setIsWishlistOpen(false)}
+        wishlist={wishlist}
+      />
+      <WardrobeManager
+        isOpen={isWardrobeOpen}
+        onClose={() => setIsWardrobeOpen(false)}
+      />
+      <ShareDialog
+        isOpen={isShareOpen}
+        onClose={() => setIsShareOpen(false)}
+        plan={travelPlan}
+      />
       <main className="container mx-auto px-4 py-6 max-w-[1920px] min-h-[calc(100vh-4rem)] mt-16">
         <div className="w-full h-full">
           <ResultsPanel 
@@ -145,6 +247,13 @@ function App() {
             isLoading={isLoading} 
             onChatOpen={toggleChat}
             hasInteracted={hasInteracted}
+            onRefreshOutfit={handleRefreshOutfit}
+            filters={filters}
+            onFiltersChange={handleFiltersChange}
+            isApplyingFilters={isApplyingFilters}
+            wishlist={isAuthenticated ? wishlist : undefined}
+            onShare={isAuthenticated ? () => setIsShareOpen(true) : undefined}
+            isAuthenticated={isAuthenticated}
           />
         </div>
 
@@ -181,6 +290,9 @@ function App() {
                 isLoading={isLoading}
                 travelPlan={travelPlan}
                 onRequestAuth={handleAuthRequest}
+                usageLimit={usageLimit}
+                placeChoices={placeChoice?.candidates}
+                onChoosePlace={handleChoosePlace}
               />
             </motion.div>
           )}
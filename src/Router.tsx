@@ -0,0 +1,10 @@
+import App from './App.tsx';
+import SharedPlanView from './components/SharedPlanView';
+import { useRoute } from './hooks/useRoute';
+
+function Router() {
+  const route = useRoute();
+  return route.name === 'share' ? <SharedPlanView shareId={route.shareId} /> : <App />;
+}
+
+export default Router;
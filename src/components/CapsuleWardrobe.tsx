@@ -0,0 +1,27 @@
+import React from 'react';
+import { Shirt } from 'lucide-react';
+
+interface CapsuleWardrobeProps {
+  pieces: string[];
+}
+
+const CapsuleWardrobe: React.FC<CapsuleWardrobeProps> = ({ pieces }) => {
+  return (
+    <div className="bg-white rounded-xl p-4 border border-gray-100">
+      <div className="flex items-center gap-2 mb-3">
+        <Shirt className="w-4 h-4 text-purple-500" />
+        <h4 className="text-sm font-medium text-black">Capsule wardrobe</h4>
+        <span className="text-xs text-gray-500 font-light">{pieces.length} pieces for the whole trip</span>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {pieces.map(piece => (
+          <span key={piece} className="text-xs font-light text-gray-700 bg-gray-50 border border-gray-100 rounded-full px-3 py-1">
+            {piece}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CapsuleWardrobe;
@@ -1,18 +1,80 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Loader } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { Send, Loader, ImagePlus, X, Gauge, MapPin } from 'lucide-react';
 import ChatMessage from './ChatMessage';
-import { ChatMessage as ChatMessageType } from '../types';
+import { ChatMessage as ChatMessageType, Place, TravelPlan, UsageLimit } from '../types';
 import { supabase } from '../services/supabase';
+import { resizeImage } from '../utils/image';
+import { placeLabel } from '../utils/places';
 
 interface ChatPanelProps {
-  onSubmit: (message: string) => void;
+  onSubmit: (message: string, history: ChatMessageType[], photo?: string) => void;
   isLoading: boolean;
-  travelPlan: any;
+  travelPlan: TravelPlan | null;
   onRequestAuth: () => void;
+  usageLimit?: UsageLimit | null; // set when a request was refused for a used-up daily allowance
+  placeChoices?: Place[]; // same-named places the destination could be, while the plan waits for a pick
+  onChoosePlace?: (place: Place | null) => void; // null when the destination is none of them
 }
 
-const ChatPanel: React.FC<ChatPanelProps> = ({ onSubmit, isLoading, travelPlan, onRequestAuth }) => {
+const compactNumber = new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 });
+
+// Region and size, to tell apart places that share a name
+function describePlace(place: Place): string {
+  return [
+    place.admin1,
+    place.countryCode === 'US' ? undefined : place.country,
+    place.population ? `${compactNumber.format(place.population)} people` : undefined,
+  ].filter(Boolean).join(' · ');
+}
+
+// Assistant reply for each kind of successful plan
+function summarizePlan(plan: TravelPlan): string {
+  if (plan.params?.refinement) {
+    return `I've reworked your looks: ${plan.params.refinement}. Tell me if you'd like any other changes!`;
+  }
+
+  switch (plan.type) {
+    case 'travel':
+      if (plan.days && plan.days.length > 1) {
+        return `Here's your ${plan.days.length}-day plan for ${plan.destination}, ${new Date(plan.date!).toLocaleDateString()} to ${new Date(plan.endDate!).toLocaleDateString()}. I built a capsule wardrobe and outfits for every day!`;
+      }
+      return `Here are your outfit suggestions for ${plan.destination} on ${new Date(plan.date!).toLocaleDateString()}. I've checked the weather and found some great options for you!`;
+    case 'event':
+      return `Here are your outfit suggestions for the ${plan.event}. I've curated some perfect looks for the occasion!`;
+    case 'lyrics':
+      return `Here are looks inspired by the lyrics "${plan.subject}". I matched the mood and imagery of the song!`;
+    case 'movie':
+      return `Here are outfits inspired by ${plan.subject}. I pulled from the film's visual mood and costumes!`;
+    case 'anime':
+      return `Here are outfits channeling ${plan.subject}. I translated the anime's aesthetic into wearable looks!`;
+    case 'sports':
+      return `Here are fan-ready outfits for ${plan.subject}. Game day sorted!`;
+    case 'culture':
+      return `Here are outfits inspired by ${plan.subject}. I've captured the cultural vibe in modern looks!`;
+    case 'activity':
+      return `Here are outfits for ${plan.subject}. I balanced performance and style for the activity!`;
+    case 'item':
+      return `Here are some fresh ways to style ${plan.subject}. Mix and match to make it yours!`;
+    default:
+      return '';
+  }
+}
+
+const ChatPanel: React.FC<ChatPanelProps> = ({
+  onSubmit,
+  isLoading,
+  travelPlan,
+  onRequestAuth,
+  usageLimit,
+  placeChoices,
+  onChoosePlace,
+}) => {
   const [message, setMessage] = useState('');
+  const [showPlaceHint, setShowPlaceHint] = useState(false);
+  const [photo, setPhoto] = useState<string | null>(null); // downscaled data URL
+  const [photoError, setPhotoError] = useState<string | null>(null);
+  const photoInputRef = useRef<HTMLInputElement>(null);
   const [chatHistory, setChatHistory] = useState<ChatMessageType[]>([
     {
       id: '1',
@@ -23,6 +85,8 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ onSubmit, isLoading, travelPlan,
   ]);
 
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  // Plans arrive in several partial updates; only the finished plan gets a reply
+  const summarizedPlanId = useRef<string | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
 
   useEffect(() => {
@@ -92,15 +156,12 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ onSubmit, isLoading, travelPlan,
   }, [isAuthenticated]);
 
   useEffect(() => {
-    if (travelPlan) {
+    if (travelPlan && travelPlan.status !== 'loading' && travelPlan.id !== summarizedPlanId.current) {
+      summarizedPlanId.current = travelPlan.id;
       let newMessage = '';
 
       if (travelPlan.status === 'success') {
-        if (travelPlan.type === 'travel') {
-          newMessage = `Here are your outfit suggestions for ${travelPlan.destination} on ${new Date(travelPlan.date).toLocaleDateString()}. I've checked the weather and found some great options for you!`;
-        } else if (travelPlan.type === 'event') {
-          newMessage = `Here are your outfit suggestions for the ${travelPlan.event}. I've curated some perfect looks for the occasion!`;
-        }
+        newMessage = summarizePlan(travelPlan);
       } else if (travelPlan.status === 'warning') {
         newMessage = `I found outfit suggestions for ${travelPlan.destination}, but please note: ${travelPlan.warning}`;
       } else if (travelPlan.status === 'error') {
@@ -136,9 +197,28 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ onSubmit, isLoading, travelPlan,
     }
   }, [chatHistory]);
 
+  // The limit lifts by itself once the allowance renews. Only a used-up styling allowance stops the
+  // chat; without searches or images the looks still come, just without products.
+  const activeLimit = usageLimit && parseISO(usageLimit.resetsAt) > new Date() ? usageLimit : null;
+  const isLimited = activeLimit?.limit === 'llmTokens';
+
+  const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow picking the same file again
+    if (!file) return;
+
+    setPhotoError(null);
+    try {
+      setPhoto(await resizeImage(file));
+    } catch (error) {
+      console.error('Error reading photo:', error);
+      setPhotoError(error instanceof Error ? error.message : 'Could not read that photo');
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!message.trim() || isLoading) return;
+    if ((!message.trim() && !photo) || isLoading || isLimited) return;
 
     if (!isAuthenticated) {
       onRequestAuth();
@@ -155,7 +235,7 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ onSubmit, isLoading, travelPlan,
       .from('chat_messages')
       .insert({
         user_id: user.id,
-        content: message,
+        content: photo ? `📷 ${message.trim() || 'Style the piece in my photo'}` : message,
         type: 'user'
       });
 
@@ -164,16 +244,25 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ onSubmit, isLoading, travelPlan,
       return;
     }
 
-    onSubmit(message);
+    onSubmit(message, chatHistory, photo ?? undefined);
     setMessage('');
+    setPhoto(null);
+    setShowPlaceHint(false);
   };
 
+  const handleNoPlace = () => {
+    setShowPlaceHint(true);
+    onChoosePlace?.(null);
+  };
+
+  const canSend = !isLoading && !isLimited && (!!message.trim() || !!photo);
+
   return (
     <div className="w-full max-w-lg mx-auto flex flex-col h-full max-h-[90vh] bg-white rounded-xl border border-gray-100 overflow-hidden shadow-md">
       <div className="p-4 border-b border-gray-100 bg-gray-50">
         <h2 className="text-lg font-light text-black">How can I help you today?</h2>
         <p className="text-gray-600 text-sm font-light">
-          Ask about outfits or event wear
+          Ask about outfits or event wear, or attach a photo to style around
         </p>
       </div>
 
@@ -191,23 +280,101 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ onSubmit, isLoading, travelPlan,
       </div>
 
       <div className="p-4 border-t border-gray-100 bg-gray-50">
+        {activeLimit && (
+          <div className="flex items-start gap-2 mb-3 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm">
+            <Gauge className="h-4 w-4 text-amber-600 flex-shrink-0 mt-0.5" />
+            <div>
+              <p className="text-amber-800">Daily limit reached</p>
+              <p className="text-amber-700 font-light">
+                {activeLimit.message}{' '}
+                {isLimited
+                  ? `You can chat again after ${format(parseISO(activeLimit.resetsAt), 'MMM d, h:mm a')}.`
+                  : `Looks will come without products until ${format(parseISO(activeLimit.resetsAt), 'MMM d, h:mm a')}.`}
+              </p>
+            </div>
+          </div>
+        )}
+        {placeChoices && placeChoices.length > 0 && (
+          <div className="mb-3 rounded-lg border border-purple-100 bg-white px-3 py-2 text-sm">
+            <p className="flex items-center gap-2 text-gray-800 mb-2">
+              <MapPin className="h-4 w-4 text-purple-500" />
+              Which {placeChoices[0].name} do you mean?
+            </p>
+            <div className="space-y-1">
+              {placeChoices.map(place => (
+                <button
+                  key={`${place.latitude},${place.longitude}`}
+                  type="button"
+                  onClick={() => onChoosePlace?.(place)}
+                  className="w-full text-left px-3 py-2 rounded-lg border border-gray-100 hover:border-purple-200 hover:bg-purple-50 transition-colors"
+                >
+                  <span className="block text-gray-800">{placeLabel(place)}</span>
+                  <span className="block text-xs text-gray-500 font-light">{describePlace(place)}</span>
+                </button>
+              ))}
+              <button
+                type="button"
+                onClick={handleNoPlace}
+                className="w-full text-left px-3 py-2 text-xs text-gray-500 hover:text-purple-600 transition-colors"
+              >
+                None of these
+              </button>
+            </div>
+          </div>
+        )}
+        {showPlaceHint && !placeChoices && (
+          <p className="text-gray-600 text-xs mb-2">
+            Tell me which one by adding its state or country, e.g. "Portland, Maine".
+          </p>
+        )}
+        {photo && (
+          <div className="relative w-fit mb-3">
+            <img src={photo} alt="Attached photo" className="h-16 w-16 rounded-lg object-cover border border-gray-200" />
+            <button
+              type="button"
+              onClick={() => setPhoto(null)}
+              className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-black text-white flex items-center justify-center"
+              aria-label="Remove photo"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        )}
+        {photoError && <p className="text-red-600 text-xs mb-2">{photoError}</p>}
         <form onSubmit={handleSubmit} className="flex gap-2">
+          <input
+            ref={photoInputRef}
+            type="file"
+            accept="image/*"
+            onChange={handlePhotoChange}
+            className="hidden"
+          />
+          <button
+            type="button"
+            onClick={() => photoInputRef.current?.click()}
+            className="p-3 rounded-xl border border-gray-200 bg-white text-gray-500 hover:text-purple-600 transition-colors"
+            disabled={isLoading || isLimited}
+            aria-label="Attach a photo"
+            title="Attach a photo of a garment or an inspiration look"
+          >
+            <ImagePlus className="h-5 w-5" />
+          </button>
           <input
             type="text"
             value={message}
             onChange={(e) => setMessage(e.target.value)}
-            placeholder="Ask about travel or event outfits..."
+            placeholder={photo ? 'Add a note, or just send the photo...' : 'Ask about travel or event outfits...'}
             className="flex-1 px-4 py-3 border border-gray-200 rounded-xl focus:outline-none focus:ring-1 focus:ring-purple-500 bg-white text-sm font-light"
-            disabled={isLoading}
+            disabled={isLoading || isLimited}
           />
           <button
             type="submit"
             className={`p-3 rounded-xl ${
-              isLoading || !message.trim()
+              !canSend
                 ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
                 : 'bg-gradient-to-r from-purple-600 to-blue-600 text-white hover:from-purple-700 hover:to-blue-700'
             } transition-colors duration-200`}
-            disabled={isLoading || !message.trim()}
+            disabled={!canSend}
           >
             {isLoading ? (
               <Loader className="h-5 w-5 animate-spin" />
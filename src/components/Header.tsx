@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Search, User, Menu, X, LogOut, Sparkles } from 'lucide-react';
+import { Search, User, Menu, X, LogOut, Sparkles, History, Store, ChevronDown, Shirt, Heart, UserRound } from 'lucide-react';
 import { supabase } from '../services/supabase';
 import { Auth } from '@supabase/auth-ui-react';
 import { ThemeSupa } from '@supabase/auth-ui-shared';
@@ -7,11 +7,25 @@ import { ThemeSupa } from '@supabase/auth-ui-shared';
 interface HeaderProps {
   showAuthModal: boolean;
   onCloseAuthModal: () => void;
+  onOpenHistory: () => void;
+  onOpenStoreSettings: () => void;
+  onOpenStyleProfile: () => void;
+  onOpenWishlist: () => void;
+  onOpenWardrobe: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ showAuthModal, onCloseAuthModal }) => {
+const Header: React.FC<HeaderProps> = ({
+  showAuthModal,
+  onCloseAuthModal,
+  onOpenHistory,
+  onOpenStoreSettings,
+  onOpenStyleProfile,
+  onOpenWishlist,
+  onOpenWardrobe,
+}) => {
   const [isScrolled, setIsScrolled] = useState(false);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const [userMenuOpen, setUserMenuOpen] = useState(false);
   const [user, setUser] = useState<any>(null);
 
   useEffect(() => {
@@ -39,9 +53,18 @@ const Header: React.FC<HeaderProps> = ({ showAuthModal, onCloseAuthModal }) => {
   }, [onCloseAuthModal]);
 
   const handleSignOut = async () => {
+    setUserMenuOpen(false);
     await supabase.auth.signOut();
   };
 
+  const userMenuItems = [
+    { icon: UserRound, label: 'Style profile', onClick: onOpenStyleProfile },
+    { icon: Shirt, label: 'My wardrobe', onClick: onOpenWardrobe },
+    { icon: Heart, label: 'Wishlist', onClick: onOpenWishlist },
+    { icon: History, label: 'Past plans', onClick: onOpenHistory },
+    { icon: Store, label: 'Store preferences', onClick: onOpenStoreSettings },
+  ];
+
   return (
     <header className={`fixed top-0 left-0 w-full z-50 transition-all duration-300 ${isScrolled ? 'bg-white/90 backdrop-blur-md shadow-sm' : 'bg-white'}`}>
       <div className="container mx-auto px-4 md:px-6">
@@ -62,9 +85,42 @@ const Header: React.FC<HeaderProps> = ({ showAuthModal, onCloseAuthModal }) => {
           <div className="flex items-center space-x-4">
             <button className="p-2 text-gray-600 hover:text-blue-600 transition-colors"><Search size={20} /></button>
             {user ? (
-              <div className="flex items-center gap-2">
-                <span className="text-sm font-light">{user.email}</span>
-                <button onClick={handleSignOut} className="p-2 text-gray-600 hover:text-blue-600 transition-colors"><LogOut size={20} /></button>
+              <div className="relative">
+                <button
+                  onClick={() => setUserMenuOpen(!userMenuOpen)}
+                  className="flex items-center gap-1 p-2 text-gray-600 hover:text-blue-600 transition-colors"
+                  aria-haspopup="menu"
+                  aria-expanded={userMenuOpen}
+                >
+                  <span className="text-sm font-light">{user.email}</span>
+                  <ChevronDown size={16} />
+                </button>
+                {userMenuOpen && (
+                  <div role="menu" className="absolute right-0 top-full mt-1 w-52 bg-white rounded-lg shadow-lg border border-gray-100 py-1 z-50">
+                    {userMenuItems.map(({ icon: Icon, label, onClick }) => (
+                      <button
+                        key={label}
+                        role="menuitem"
+                        onClick={() => {
+                          setUserMenuOpen(false);
+                          onClick();
+                        }}
+                        className="w-full flex items-center gap-2 px-4 py-2 text-sm font-light text-gray-700 hover:bg-gray-50 transition-colors"
+                      >
+                        <Icon size={16} />
+                        {label}
+                      </button>
+                    ))}
+                    <button
+                      role="menuitem"
+                      onClick={handleSignOut}
+                      className="w-full flex items-center gap-2 px-4 py-2 text-sm font-light text-gray-700 hover:bg-gray-50 transition-colors border-t border-gray-100"
+                    >
+                      <LogOut size={16} />
+                      Sign out
+                    </button>
+                  </div>
+                )}
               </div>
             ) : (
               <button onClick={() => onCloseAuthModal()} className="p-2 text-gray-600 hover:text-blue-600 transition-colors"><User size={20} /></button>
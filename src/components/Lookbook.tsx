@@ -0,0 +1,106 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { format, parseISO } from 'date-fns';
+import { TravelPlan, WeatherData } from '../types';
+import { parseOutfitItems, planSections } from '../utils/outfit';
+import { buildPackingList } from '../utils/packing';
+import { formatPrice } from '../utils/price';
+import { planTitle } from '../services/plans';
+import { useUnits } from '../hooks/useUnits';
+import { formatTemperature, formatWindSpeed } from '../utils/units';
+
+interface LookbookProps {
+  plan: TravelPlan;
+}
+
+const formatDate = (date: string) => format(parseISO(date), 'EEE, MMM d, yyyy');
+
+// The same figures as WeatherCard, laid out as one printable line
+const WeatherSummary: React.FC<{ weather: WeatherData }> = ({ weather }) => {
+  const { units } = useUnits();
+  const temperature = (value: number) => formatTemperature(value, weather.units, units);
+
+  return (
+    <p className="text-sm text-gray-700">
+      {weather.location} · {temperature(weather.temperature)}
+      {weather.temperatureMin !== undefined && `/${temperature(weather.temperatureMin)}`}
+      {' '}· {weather.description} · feels {temperature(weather.details.feelsLike)} · humidity {weather.details.humidity}%
+      {' '}· wind {formatWindSpeed(weather.details.windSpeed, weather.units, units)}
+      {weather.details.uvIndex !== undefined && ` · UV ${Math.round(weather.details.uvIndex)}`}
+      {weather.sunrise && weather.sunset && ` · sun ${weather.sunrise.slice(11, 16)}–${weather.sunset.slice(11, 16)}`}
+      {weather.details.precipitation !== undefined && ` · ${weather.details.precipitation}% chance of rain`}
+      {weather.climatology && ' · typical climate, not a forecast'}
+    </p>
+  );
+};
+
+/**
+ * Print-only lookbook of a finished plan: one page per day with the weather, every look and its
+ * products, and a packing checklist on the last page. Hidden on screen; see printLookbook().
+ */
+const Lookbook: React.FC<LookbookProps> = ({ plan }) => {
+  const sections = planSections(plan);
+  const checklist = buildPackingList(plan);
+
+  return createPortal(
+    <div className="lookbook bg-white text-black p-8">
+      {sections.map((section, index) => (
+        <section key={section.date ?? index} className={index > 0 ? 'break-before-page' : ''}>
+          <header className="mb-6 border-b border-gray-200 pb-4">
+            <p className="text-xs tracking-[0.2em] text-gray-500">ADHIKARI LOOKBOOK</p>
+            <h1 className="text-2xl font-light">{planTitle(plan)}</h1>
+            {section.date && (
+              <p className="text-sm text-gray-600">
+                {sections.length > 1 && `Day ${index + 1} · `}{formatDate(section.date)}
+              </p>
+            )}
+            {section.weather && <WeatherSummary weather={section.weather} />}
+          </header>
+
+          <div className="space-y-6">
+            {section.outfits.map(outfit => (
+              <article key={outfit.id} className="break-inside-avoid">
+                <h2 className="text-lg font-light mb-1">{outfit.type}</h2>
+                <ul className="text-sm text-gray-700 list-disc pl-5 mb-3">
+                  {parseOutfitItems(outfit.description).map(item => <li key={item}>{item}</li>)}
+                </ul>
+                {outfit.products && outfit.products.length > 0 && (
+                  <div className="grid grid-cols-2 gap-3">
+                    {outfit.products.map(product => (
+                      <div key={product.link} className="flex gap-3 break-inside-avoid">
+                        <img src={product.image} alt="" className="h-16 w-16 object-cover rounded border border-gray-200 flex-shrink-0" />
+                        <div className="min-w-0 text-xs">
+                          <p className="line-clamp-2">{product.title}</p>
+                          <p className="text-gray-600">{product.store} · {formatPrice(product.price)}</p>
+                          <a href={product.link} className="text-purple-700 break-all">{product.link}</a>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </article>
+            ))}
+          </div>
+        </section>
+      ))}
+
+      {checklist.length > 0 && (
+        <section className="break-before-page">
+          <h1 className="text-2xl font-light mb-4">Packing checklist</h1>
+          <ul className="space-y-2 text-sm">
+            {checklist.map(item => (
+              <li key={item.key} className="flex items-center gap-3">
+                <span className="inline-block h-4 w-4 border border-gray-400 rounded-sm flex-shrink-0" />
+                {item.name}
+                {item.count > 1 && <span className="text-gray-500">×{item.count}</span>}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>,
+    document.body
+  );
+};
+
+export default Lookbook;
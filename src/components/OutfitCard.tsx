@@ -1,79 +1,143 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { OutfitItem } from '../types';
-import { ShoppingBag, ChevronDown, ChevronUp, CheckCircle2, RefreshCw } from 'lucide-react';
+import { ShoppingBag, ChevronDown, ChevronUp, CheckCircle2, RefreshCw, Loader, Heart } from 'lucide-react';
 import ProductCard from './ProductCard';
+import { Wishlist } from '../hooks/useWishlist';
+import { parseOutfitItems } from '../utils/outfit';
+import { arrangeProducts, estimateOutfitTotal, formatPrice, PriceSort } from '../utils/price';
 
 interface OutfitCardProps {
   outfit: OutfitItem;
-  onRefresh: (outfitId: string) => Promise<void>;
+  onRefresh?: (outfitId: string) => Promise<void>; // omitted on read-only shared plans
+  canRefresh?: boolean;
+  wishlist?: Wishlist;
 }
 
-const OutfitCard: React.FC<OutfitCardProps> = ({ outfit, onRefresh }) => {
+const OutfitCard: React.FC<OutfitCardProps> = ({ outfit, onRefresh, canRefresh = true, wishlist }) => {
   const [expanded, setExpanded] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [showPreviewPopup, setShowPreviewPopup] = useState(false);
+  const [refreshError, setRefreshError] = useState<string | null>(null);
+  const [sort, setSort] = useState<PriceSort>('relevance');
+  const [minPrice, setMinPrice] = useState('');
+  const [maxPrice, setMaxPrice] = useState('');
 
   const hasProducts = outfit.products && outfit.products.length > 0;
+  // Products are attached after the outfit itself while a plan streams in
+  const isFindingProducts = outfit.products === undefined;
 
   // Parse the description into individual clothing items
-  const clothingItems = outfit.description.split(/[.,]/).filter(item => item.trim());
+  const clothingItems = parseOutfitItems(outfit.description);
+  // Looks built from the user's wardrobe list their pieces as owned or still to buy
+  const pieces = outfit.pieces?.some(piece => piece.owned) ? outfit.pieces : undefined;
+  const piecesToBuy = pieces ? pieces.filter(piece => !piece.owned).length : clothingItems.length;
 
-  const handleRefresh = async () => {
-    if (isRefreshing) return;
+  const estimatedTotal = estimateOutfitTotal(outfit, piecesToBuy);
+  const visibleProducts = useMemo(
+    () => arrangeProducts(outfit.products ?? [], sort, {
+      min: minPrice ? Number(minPrice) : undefined,
+      max: maxPrice ? Number(maxPrice) : undefined,
+    }),
+    [outfit.products, sort, minPrice, maxPrice]
+  );
 
-    // Show popup
-    setShowPreviewPopup(true);
-    setTimeout(() => setShowPreviewPopup(false), 2000);
+  const handleRefresh = async () => {
+    if (isRefreshing || !canRefresh || !onRefresh) return;
 
     setIsRefreshing(true);
+    setRefreshError(null);
     try {
       await onRefresh(outfit.id);
     } catch (error) {
       console.error('Failed to refresh outfit:', error);
+      setRefreshError('Could not refresh this look');
+      setTimeout(() => setRefreshError(null), 2000); // Auto-hide after 2s
     } finally {
       setIsRefreshing(false);
     }
   };
 
+  const handleToggleSave = async (save: () => Promise<void>) => {
+    try {
+      await save();
+    } catch (error) {
+      console.error('Failed to update wishlist:', error);
+      setRefreshError('Could not update your wishlist');
+      setTimeout(() => setRefreshError(null), 2000);
+    }
+  };
+
+  const isOutfitSaved = wishlist?.isOutfitSaved(outfit) ?? false;
+
   return (
     <div className="bg-white rounded-xl border border-gray-100 overflow-hidden transition-all duration-200 hover:shadow-sm">
       <div className="p-4 border-b border-gray-100 bg-gray-50">
         <div className="flex justify-between items-center mb-2 relative">
           <h4 className="font-light text-lg text-black">{outfit.type}</h4>
 
-          <div className="relative">
-            <button
-              className={`text-sm px-3 py-1.5 rounded-md transition-all flex items-center gap-1.5 ${
-                isRefreshing
-                  ? 'bg-white-100 text-white-600 cursor-not-allowed'
-                  : 'bg-white-50 hover:bg-white-100 text-green-700 hover:text-green-800 active:bg-green-200'
-              }`}
-              onClick={handleRefresh}
-              disabled={isRefreshing}
-              aria-label="Refresh outfit suggestions"
-            >
-              <RefreshCw
-                className={`h-3.5 w-3.5 ${isRefreshing ? 'animate-spin' : ''} text-green-600`}
-              />
-              <span>{isRefreshing ? 'Refreshing...' : ''}</span>
-            </button>
-
-            {showPreviewPopup && (
+          <div className="relative flex items-center">
+            {wishlist && (
+              <button
+                className="p-1.5 rounded-md transition hover:bg-white"
+                onClick={() => handleToggleSave(() => wishlist.toggleOutfit(outfit))}
+                disabled={!canRefresh}
+                aria-label={isOutfitSaved ? 'Remove look from wishlist' : 'Save look to wishlist'}
+                aria-pressed={isOutfitSaved}
+              >
+                <Heart className={`h-3.5 w-3.5 ${isOutfitSaved ? 'fill-rose-500 text-rose-500' : 'text-gray-500'}`} />
+              </button>
+            )}
+            {onRefresh && (
+              <button
+                className={`text-sm px-3 py-1.5 rounded-md transition-all flex items-center gap-1.5 ${
+                  isRefreshing
+                    ? 'bg-white-100 text-white-600 cursor-not-allowed'
+                    : 'bg-white-50 hover:bg-white-100 text-green-700 hover:text-green-800 active:bg-green-200'
+                }`}
+                onClick={handleRefresh}
+                disabled={isRefreshing || !canRefresh}
+                aria-label="Refresh outfit suggestions"
+              >
+                <RefreshCw
+                  className={`h-3.5 w-3.5 ${isRefreshing ? 'animate-spin' : ''} text-green-600`}
+                />
+                <span>{isRefreshing ? 'Refreshing...' : ''}</span>
+              </button>
+            )}
+
+            {refreshError && (
               <div className="absolute top-10 left-1/2 transform -translate-x-1/2 bg-black text-white text-xs px-3 py-1 rounded shadow z-20 whitespace-nowrap">
-                Coming soon
+                {refreshError}
               </div>
             )}
           </div>
         </div>
 
         <div className="space-y-2">
-          {clothingItems.map((item, index) => (
-            <div key={index} className="flex items-center gap-2 text-gray-600">
-              <CheckCircle2 className="h-4 w-4 text-gray-400 flex-shrink-0" />
-              <span className="font-light text-sm">{item.trim()}</span>
-            </div>
-          ))}
+          {pieces
+            ? pieces.map((piece, index) => (
+              <div key={index} className="flex items-center gap-2 text-gray-600">
+                {piece.owned
+                  ? <CheckCircle2 className="h-4 w-4 text-green-600 flex-shrink-0" />
+                  : <ShoppingBag className="h-4 w-4 text-gray-400 flex-shrink-0" />}
+                <span className="font-light text-sm">{piece.name}</span>
+                <span className={`ml-auto text-[10px] px-2 py-0.5 rounded-full ${piece.owned ? 'bg-green-50 text-green-700' : 'bg-gray-100 text-gray-500'}`}>
+                  {piece.owned ? 'Owned' : 'To buy'}
+                </span>
+              </div>
+            ))
+            : clothingItems.map((item, index) => (
+              <div key={index} className="flex items-center gap-2 text-gray-600">
+                <CheckCircle2 className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                <span className="font-light text-sm">{item}</span>
+              </div>
+            ))}
         </div>
+
+        {estimatedTotal && (
+          <p className="mt-3 text-xs font-light text-gray-500" title="Typical price of the matching products times the number of pieces">
+            Est. total for the look: <span className="text-black">≈ {formatPrice(estimatedTotal)}</span>
+          </p>
+        )}
       </div>
 
       <div className="p-4">
@@ -84,6 +148,7 @@ const OutfitCard: React.FC<OutfitCardProps> = ({ outfit, onRefresh }) => {
           <span className="flex items-center font-light">
             <ShoppingBag className="h-4 w-4 mr-2" />
             <span>Shop This Look</span>
+            {isFindingProducts && <Loader className="h-3.5 w-3.5 ml-2 animate-spin text-purple-500" />}
           </span>
           {expanded ? (
             <ChevronUp className="h-4 w-4" />
@@ -94,16 +159,69 @@ const OutfitCard: React.FC<OutfitCardProps> = ({ outfit, onRefresh }) => {
 
         {expanded && (
           <div className="mt-4">
-            {!hasProducts ? (
+            {isFindingProducts ? (
               <div className="text-center py-8 bg-gray-50 rounded-xl">
-                <p className="text-gray-600 font-light">No shopping suggestions available</p>
+                <p className="text-gray-600 font-light">Finding products…</p>
               </div>
-            ) : (
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                {outfit.products?.map((product, index) => (
-                  <ProductCard key={index} product={product} />
-                ))}
+            ) : !hasProducts ? (
+              <div className="text-center py-8 bg-gray-50 rounded-xl">
+                <p className="text-gray-600 font-light">
+                  {pieces && piecesToBuy === 0 ? 'Every piece is already in your wardrobe' : 'No shopping suggestions available'}
+                </p>
               </div>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center gap-2 mb-4 text-xs font-light">
+                  <select
+                    value={sort}
+                    onChange={e => setSort(e.target.value as PriceSort)}
+                    className="border border-gray-200 rounded-md px-2 py-1 bg-white"
+                    aria-label="Sort products"
+                  >
+                    <option value="relevance">Best match</option>
+                    <option value="price-asc">Price: low to high</option>
+                    <option value="price-desc">Price: high to low</option>
+                  </select>
+                  <input
+                    type="number"
+                    min={0}
+                    inputMode="decimal"
+                    value={minPrice}
+                    onChange={e => setMinPrice(e.target.value)}
+                    placeholder="Min"
+                    className="w-16 border border-gray-200 rounded-md px-2 py-1"
+                    aria-label="Minimum price"
+                  />
+                  <span className="text-gray-400">–</span>
+                  <input
+                    type="number"
+                    min={0}
+                    inputMode="decimal"
+                    value={maxPrice}
+                    onChange={e => setMaxPrice(e.target.value)}
+                    placeholder="Max"
+                    className="w-16 border border-gray-200 rounded-md px-2 py-1"
+                    aria-label="Maximum price"
+                  />
+                </div>
+
+                {visibleProducts.length === 0 ? (
+                  <div className="text-center py-8 bg-gray-50 rounded-xl">
+                    <p className="text-gray-600 font-light">No products in this price range</p>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    {visibleProducts.map(product => (
+                      <ProductCard
+                        key={product.link}
+                        product={product}
+                        isSaved={wishlist?.isProductSaved(product)}
+                        onToggleSave={wishlist && (() => handleToggleSave(() => wishlist.toggleProduct(product, outfit)))}
+                      />
+                    ))}
+                  </div>
+                )}
+              </>
             )}
           </div>
         )}
@@ -1,6 +1,7 @@
-import React, { useState } from 'react';
-import { OutfitItem } from '../types';
+import React from 'react';
+import { Audience, Occasion, OutfitFilters, OutfitItem } from '../types';
 import OutfitCard from './OutfitCard';
+import { Wishlist } from '../hooks/useWishlist';
 import {
   Sparkles,
   Sun,
@@ -11,29 +12,65 @@ import {
   Umbrella,
   User,
   UserRound,
+  Loader,
 } from 'lucide-react';
 
 interface OutfitSuggestionsProps {
   outfits: OutfitItem[];
+  pendingOutfits: number; // placeholder cards for outfits still being generated
+  isStreaming: boolean;
+  onRefreshOutfit: (outfitId: string) => Promise<void>;
+  filters: OutfitFilters;
+  onFiltersChange: (filters: OutfitFilters) => void;
+  isApplyingFilters: boolean;
+  wishlist?: Wishlist;
 }
 
-const iconTags = [
-  { icon: User, color: 'bg-blue-10 text-blue-600', title: 'Men' },
-  { icon: UserRound, color: 'bg-pink-10 text-pink-600', title: 'Female' },
-  { icon: Sun, color: 'bg-yellow-10 text-yellow-600', title: 'Day' },
-  { icon: Moon, color: 'bg-indigo-10 text-indigo-600', title: 'Night' },
-  { icon: Umbrella, color: 'bg-cyan-10 text-cyan-600', title: 'Beach' },
-  { icon: Gift, color: 'bg-red-10 text-red-500', title: 'Birthday' },
-  { icon: Heart, color: 'bg-rose-10 text-rose-500', title: 'Date' },
-  { icon: Briefcase, color: 'bg-gray-10 text-gray-600', title: 'Business' },
+type TagFilter = { audience: Audience } | { occasion: Occasion };
+
+const iconTags: { icon: typeof User; color: string; activeColor: string; title: string; filter: TagFilter }[] = [
+  { icon: User, color: 'bg-blue-10 text-blue-600', activeColor: 'bg-blue-600 text-white', title: 'Men', filter: { audience: 'men' } },
+  { icon: UserRound, color: 'bg-pink-10 text-pink-600', activeColor: 'bg-pink-600 text-white', title: 'Female', filter: { audience: 'women' } },
+  { icon: Sun, color: 'bg-yellow-10 text-yellow-600', activeColor: 'bg-yellow-500 text-white', title: 'Day', filter: { occasion: 'day' } },
+  { icon: Moon, color: 'bg-indigo-10 text-indigo-600', activeColor: 'bg-indigo-600 text-white', title: 'Night', filter: { occasion: 'night' } },
+  { icon: Umbrella, color: 'bg-cyan-10 text-cyan-600', activeColor: 'bg-cyan-600 text-white', title: 'Beach', filter: { occasion: 'beach' } },
+  { icon: Gift, color: 'bg-red-10 text-red-500', activeColor: 'bg-red-500 text-white', title: 'Birthday', filter: { occasion: 'birthday' } },
+  { icon: Heart, color: 'bg-rose-10 text-rose-500', activeColor: 'bg-rose-500 text-white', title: 'Date', filter: { occasion: 'date' } },
+  { icon: Briefcase, color: 'bg-gray-10 text-gray-600', activeColor: 'bg-gray-700 text-white', title: 'Business', filter: { occasion: 'business' } },
 ];
 
-const OutfitSuggestions: React.FC<OutfitSuggestionsProps> = ({ outfits }) => {
-  const [activeTooltip, setActiveTooltip] = useState<number | null>(null);
+function isActive(filters: OutfitFilters, filter: TagFilter): boolean {
+  return 'audience' in filter
+    ? filters.audience === filter.audience
+    : filters.occasions.includes(filter.occasion);
+}
+
+// Audiences are exclusive; occasions stack
+function toggle(filters: OutfitFilters, filter: TagFilter): OutfitFilters {
+  if ('audience' in filter) {
+    return { ...filters, audience: filters.audience === filter.audience ? undefined : filter.audience };
+  }
+  const occasions = filters.occasions.includes(filter.occasion)
+    ? filters.occasions.filter(occasion => occasion !== filter.occasion)
+    : [...filters.occasions, filter.occasion];
+  return { ...filters, occasions };
+}
 
-  const handleTagClick = (index: number) => {
-    setActiveTooltip(index === activeTooltip ? null : index);
-    setTimeout(() => setActiveTooltip(null), 2000); // Auto-hide after 2s
+const OutfitSuggestions: React.FC<OutfitSuggestionsProps> = ({
+  outfits,
+  pendingOutfits,
+  isStreaming,
+  onRefreshOutfit,
+  filters,
+  onFiltersChange,
+  isApplyingFilters,
+  wishlist,
+}) => {
+  const isBusy = isApplyingFilters || isStreaming;
+
+  const handleTagClick = (filter: TagFilter) => {
+    if (isBusy) return;
+    onFiltersChange(toggle(filters, filter));
   };
 
   return (
@@ -46,37 +83,47 @@ const OutfitSuggestions: React.FC<OutfitSuggestionsProps> = ({ outfits }) => {
 
         {/* Vector-style icon badges */}
         <div className="flex items-center gap-3 relative">
-          {iconTags.map(({ icon: Icon, color, title }, idx) => (
-            <div key={idx} className="relative">
+          {isBusy && <Loader className="w-4 h-4 text-purple-500 animate-spin" />}
+          {iconTags.map(({ icon: Icon, color, activeColor, title, filter }) => {
+            const active = isActive(filters, filter);
+            return (
               <button
-                onClick={() => handleTagClick(idx)}
-                className={`w-8 h-8 rounded-full flex items-center justify-center ${color} hover:shadow-md transition`}
-                title={title}
+                key={title}
+                onClick={() => handleTagClick(filter)}
+                disabled={isBusy}
+                className={`w-8 h-8 rounded-full flex items-center justify-center ${active ? `${activeColor} shadow-md` : color} hover:shadow-md transition disabled:cursor-not-allowed`}
+                title={`${title} outfits`}
+                aria-pressed={active}
               >
                 <Icon className="w-4 h-4" />
               </button>
-
-              {activeTooltip === idx && (
-                <div className="absolute top-10 left-1/2 transform -translate-x-1/2 text-xs bg-black text-white px-2 py-1 rounded shadow z-10 whitespace-nowrap">
-                   {title} Outfits Filter Comming Soon
-                </div>
-              )}
-            </div>
-          ))}
+            );
+          })}
         </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        {outfits.map((outfit, index) => (
+      <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 transition-opacity ${isApplyingFilters ? 'opacity-50 pointer-events-none' : ''}`}>
+        {outfits.map((outfit) => (
           <OutfitCard
-            key={index}
+            key={outfit.id}
             outfit={outfit}
-            onRefresh={async (outfitId: string) => {
-              console.log(`Refreshing outfit with ID: ${outfitId}`);
-              // Add your refresh logic here
-            }}
+            onRefresh={onRefreshOutfit}
+            canRefresh={!isStreaming}
+            wishlist={wishlist}
           />
         ))}
+        {Array.from({ length: pendingOutfits }, (_, index) => (
+          <div
+            key={`pending-${index}`}
+            className="rounded-xl border border-gray-100 bg-gray-50 animate-pulse min-h-[20rem] p-4 space-y-3"
+            aria-hidden="true"
+          >
+            <div className="h-4 w-2/3 rounded bg-gray-200" />
+            <div className="h-3 w-full rounded bg-gray-200" />
+            <div className="h-3 w-5/6 rounded bg-gray-200" />
+            <div className="h-40 w-full rounded-lg bg-gray-200 mt-6" />
+          </div>
+        ))}
       </div>
     </div>
   );
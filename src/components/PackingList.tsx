@@ -0,0 +1,130 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Luggage, ChevronDown, ChevronUp } from 'lucide-react';
+import { PackingItem, TravelPlan } from '../types';
+import { buildPackingList, PACKING_CATEGORIES } from '../utils/packing';
+import { getCheckedItems, saveCheckedItems } from '../services/packing';
+
+interface PackingListProps {
+  plan: TravelPlan;
+  canSave: boolean; // signed in; otherwise checks only last until the page is left
+}
+
+function usage(item: PackingItem): string {
+  if (item.category === 'weather') {
+    return `${item.reason} · ${item.count} ${item.count === 1 ? 'day' : 'days'}`;
+  }
+  return `${item.count} ${item.count === 1 ? 'look' : 'looks'}`;
+}
+
+const PackingList: React.FC<PackingListProps> = ({ plan, canSave }) => {
+  const [expanded, setExpanded] = useState(true);
+  const [checked, setChecked] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // Ticks made while the saved checklist is still loading; applied on top of it once it arrives
+  const pendingTicks = useRef<Map<string, boolean> | null>(null);
+
+  const items = useMemo(() => buildPackingList(plan), [plan]);
+  const groups = PACKING_CATEGORIES
+    .map(({ value, label }) => ({ label, items: items.filter(item => item.category === value) }))
+    .filter(group => group.items.length > 0);
+  const packedCount = items.filter(item => checked.includes(item.key)).length;
+
+  const saveChecklist = (planId: string, keys: string[]) => {
+    saveCheckedItems(planId, keys).catch(err => {
+      console.error('Error saving packing checklist:', err);
+      setError('Could not save your checklist');
+    });
+  };
+
+  useEffect(() => {
+    setChecked([]);
+    setError(null);
+    pendingTicks.current = null;
+    if (!canSave) return;
+
+    let isCurrent = true; // false once another plan is on screen
+    const ticks = new Map<string, boolean>();
+    pendingTicks.current = ticks;
+
+    getCheckedItems(plan.id)
+      .then(saved => {
+        if (!isCurrent) return;
+        pendingTicks.current = null;
+        if (ticks.size === 0) {
+          setChecked(saved);
+          return;
+        }
+
+        const merged = [
+          ...saved.filter(key => ticks.get(key) !== false),
+          ...[...ticks].filter(([key, packed]) => packed && !saved.includes(key)).map(([key]) => key),
+        ];
+        setChecked(merged);
+        saveChecklist(plan.id, merged);
+      })
+      .catch(err => {
+        console.error('Error loading packing checklist:', err);
+        if (isCurrent) pendingTicks.current = null;
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [plan.id, canSave]);
+
+  const toggleItem = (key: string) => {
+    const packed = !checked.includes(key);
+    const next = packed ? [...checked, key] : checked.filter(k => k !== key);
+    setChecked(next);
+    if (!canSave) return;
+
+    // Saved together with the loaded checklist, so the load cannot undo it
+    if (pendingTicks.current) {
+      pendingTicks.current.set(key, packed);
+      return;
+    }
+    saveChecklist(plan.id, next);
+  };
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl p-4 border border-gray-100">
+      <button onClick={() => setExpanded(!expanded)} className="flex items-center justify-between w-full">
+        <span className="flex items-center gap-2">
+          <Luggage className="w-4 h-4 text-purple-500" />
+          <span className="text-sm font-medium text-black">Packing list</span>
+          <span className="text-xs text-gray-500 font-light">{packedCount} of {items.length} packed</span>
+        </span>
+        {expanded ? <ChevronUp className="h-4 w-4 text-gray-600" /> : <ChevronDown className="h-4 w-4 text-gray-600" />}
+      </button>
+
+      {expanded && (
+        <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          {groups.map(group => (
+            <section key={group.label} className="space-y-1">
+              <h5 className="text-xs text-gray-500">{group.label}</h5>
+              {group.items.map(item => (
+                <label key={item.key} className="flex items-start gap-2 text-sm font-light cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={checked.includes(item.key)}
+                    onChange={() => toggleItem(item.key)}
+                    className="mt-1 accent-purple-600"
+                  />
+                  <span className={checked.includes(item.key) ? 'text-gray-400 line-through' : 'text-black'}>
+                    {item.name}
+                    <span className="ml-1 text-xs text-gray-500 no-underline">({usage(item)})</span>
+                  </span>
+                </label>
+              ))}
+            </section>
+          ))}
+        </div>
+      )}
+      {error && <p className="text-red-600 text-xs mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default PackingList;
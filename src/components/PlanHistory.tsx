@@ -0,0 +1,155 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { History, X, Search, Trash2, Loader, MapPin, Sparkles } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { SavedPlanSummary, TravelPlan } from '../types';
+import { deleteSavedPlan, listSavedPlans, loadSavedPlan } from '../services/plans';
+
+interface PlanHistoryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelect: (plan: TravelPlan) => void;
+}
+
+const PlanHistory: React.FC<PlanHistoryProps> = ({ isOpen, onClose, onSelect }) => {
+  const [plans, setPlans] = useState<SavedPlanSummary[]>([]);
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [openingId, setOpeningId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setIsLoading(true);
+    setError(null);
+    listSavedPlans()
+      .then(setPlans)
+      .catch(err => {
+        console.error('Error loading saved plans:', err);
+        setError('Could not load your saved plans');
+      })
+      .finally(() => setIsLoading(false));
+  }, [isOpen]);
+
+  const visiblePlans = useMemo(() => {
+    const term = query.trim().toLowerCase();
+    if (!term) return plans;
+    return plans.filter(plan => plan.title.toLowerCase().includes(term) || plan.type.includes(term));
+  }, [plans, query]);
+
+  const handleOpen = async (id: string) => {
+    if (openingId) return;
+
+    setOpeningId(id);
+    setError(null);
+    try {
+      onSelect(await loadSavedPlan(id));
+      onClose();
+    } catch (err) {
+      console.error('Error opening saved plan:', err);
+      setError('Could not open this plan');
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteSavedPlan(id);
+      setPlans(prev => prev.filter(plan => plan.id !== id));
+    } catch (err) {
+      console.error('Error deleting saved plan:', err);
+      setError('Could not delete this plan');
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, y: 20, scale: 0.95 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: 20, scale: 0.95 }}
+            transition={{ duration: 0.2 }}
+            className="bg-white rounded-xl border border-gray-100 shadow-md max-w-lg w-full mx-4 max-h-[80vh] flex flex-col overflow-hidden"
+            onClick={event => event.stopPropagation()}
+          >
+            <div className="p-4 border-b border-gray-100 bg-gray-50 flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <History className="h-5 w-5 text-purple-500" />
+                <h2 className="text-lg font-light text-black">Your past plans</h2>
+              </div>
+              <button onClick={onClose} className="text-gray-500 hover:text-gray-700 transition-colors"><X size={20} /></button>
+            </div>
+
+            <div className="px-4 pt-4">
+              <div className="flex items-center gap-2 border border-gray-200 rounded-lg px-3 py-2">
+                <Search className="h-4 w-4 text-gray-400" />
+                <input
+                  type="text"
+                  value={query}
+                  onChange={event => setQuery(event.target.value)}
+                  placeholder="Search by destination or event"
+                  className="flex-1 text-sm font-light outline-none"
+                />
+              </div>
+              {error && <p className="text-red-600 text-sm mt-2">{error}</p>}
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-2">
+              {isLoading ? (
+                <div className="flex justify-center py-8">
+                  <Loader className="h-5 w-5 text-purple-500 animate-spin" />
+                </div>
+              ) : visiblePlans.length === 0 ? (
+                <p className="text-center py-8 text-gray-600 font-light">
+                  {plans.length ? 'No plans match your search' : 'Plans you generate will show up here'}
+                </p>
+              ) : (
+                visiblePlans.map(plan => (
+                  <div
+                    key={plan.id}
+                    className="flex items-center justify-between gap-3 rounded-lg border border-gray-100 px-3 py-2 hover:border-gray-300 transition"
+                  >
+                    <button onClick={() => handleOpen(plan.id)} className="flex-1 flex items-center gap-3 text-left min-w-0">
+                      {plan.type === 'travel'
+                        ? <MapPin className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                        : <Sparkles className="h-4 w-4 text-gray-400 flex-shrink-0" />}
+                      <span className="min-w-0">
+                        <span className="block text-sm text-black truncate">{plan.title}</span>
+                        <span className="block text-xs font-light text-gray-500 capitalize">
+                          {plan.type} · {format(parseISO(plan.date ?? plan.createdAt), 'MMM d, yyyy')}
+                        </span>
+                      </span>
+                    </button>
+                    {openingId === plan.id ? (
+                      <Loader className="h-4 w-4 text-purple-500 animate-spin" />
+                    ) : (
+                      <button
+                        onClick={() => handleDelete(plan.id)}
+                        className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                        aria-label={`Delete ${plan.title}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default PlanHistory;
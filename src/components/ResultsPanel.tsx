@@ -1,20 +1,53 @@
-import React from 'react';
-import { TravelPlan } from '../types';
+import React, { useEffect, useState } from 'react';
+import { OutfitFilters, TravelPlan } from '../types';
 import WeatherCard from './WeatherCard';
 import OutfitSuggestions from './OutfitSuggestions';
 import EmptyState from './EmptyState';
 import LoadingState from './LoadingState';
+import TripDaySelector from './TripDaySelector';
+import CapsuleWardrobe from './CapsuleWardrobe';
 import { motion } from 'framer-motion';
+import { FileDown, Share2 } from 'lucide-react';
+import Lookbook from './Lookbook';
+import PackingList from './PackingList';
+import { printLookbook } from '../utils/print';
+import { Wishlist } from '../hooks/useWishlist';
 
 interface ResultsPanelProps {
   travelPlan: TravelPlan | null;
   isLoading: boolean;
   onChatOpen: () => void;
   hasInteracted: boolean;
+  onRefreshOutfit: (outfitId: string) => Promise<void>;
+  filters: OutfitFilters;
+  onFiltersChange: (filters: OutfitFilters) => void;
+  isApplyingFilters: boolean;
+  wishlist?: Wishlist;
+  onShare?: () => void;
+  isAuthenticated: boolean;
 }
 
-const ResultsPanel: React.FC<ResultsPanelProps> = ({ travelPlan, isLoading, onChatOpen, hasInteracted }) => {
-  if (isLoading) {
+const ResultsPanel: React.FC<ResultsPanelProps> = ({
+  travelPlan,
+  isLoading,
+  onChatOpen,
+  hasInteracted,
+  onRefreshOutfit,
+  filters,
+  onFiltersChange,
+  isApplyingFilters,
+  wishlist,
+  onShare,
+  isAuthenticated,
+}) => {
+  const [selectedDay, setSelectedDay] = useState(0);
+
+  useEffect(() => {
+    setSelectedDay(0);
+  }, [travelPlan?.id]);
+
+  // Once a partial plan arrives it is rendered directly and fills in as outfits stream in
+  if (isLoading && travelPlan?.status !== 'loading') {
     return (
       <div className="min-h-[calc(100vh-6rem)]">
         <LoadingState />
@@ -30,6 +63,13 @@ const ResultsPanel: React.FC<ResultsPanelProps> = ({ travelPlan, isLoading, onCh
     );
   }
 
+  const tripDay = travelPlan.days?.[selectedDay];
+  const weather = tripDay?.weather ?? travelPlan.weather;
+  const outfits = tripDay?.outfits ?? travelPlan.outfits;
+  const isStreaming = travelPlan.status === 'loading';
+  const isFinished = travelPlan.status === 'success' || travelPlan.status === 'warning';
+  const pendingOutfits = isStreaming && !tripDay ? Math.max(0, 4 - (outfits?.length ?? 0)) : 0;
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -38,13 +78,50 @@ const ResultsPanel: React.FC<ResultsPanelProps> = ({ travelPlan, isLoading, onCh
       className="space-y-6"
     >
       <div className="flex flex-col gap-4">
-        {travelPlan.weather && (
+        {isFinished && (
+          <div className="flex justify-end gap-4">
+            <button
+              onClick={printLookbook}
+              className="flex items-center gap-1.5 text-sm font-light text-gray-600 hover:text-purple-600 transition-colors"
+              title="Print the looks, products and a packing checklist, or save them as a PDF"
+            >
+              <FileDown className="h-4 w-4" />
+              Export PDF
+            </button>
+            {onShare && (
+              <button
+                onClick={onShare}
+                className="flex items-center gap-1.5 text-sm font-light text-gray-600 hover:text-purple-600 transition-colors"
+              >
+                <Share2 className="h-4 w-4" />
+                Share
+              </button>
+            )}
+          </div>
+        )}
+        {isFinished && <Lookbook plan={travelPlan} />}
+
+        {travelPlan.days && travelPlan.days.length > 1 && (
+          <TripDaySelector days={travelPlan.days} selectedIndex={selectedDay} onSelect={setSelectedDay} />
+        )}
+
+        {travelPlan.photo && (
+          <div className="flex items-center gap-3 bg-white rounded-lg border border-gray-100 p-2 w-fit">
+            <img src={travelPlan.photo} alt="Your photo" className="h-20 w-20 rounded-md object-cover" />
+            <div className="pr-2">
+              <p className="text-sm font-light text-black">Styled around your photo</p>
+              {travelPlan.subject && <p className="text-xs font-light text-gray-500">{travelPlan.subject}</p>}
+            </div>
+          </div>
+        )}
+
+        {weather && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, delay: 0.2 }}
           >
-            <WeatherCard weather={travelPlan.weather} />
+            <WeatherCard weather={weather} />
           </motion.div>
         )}
         
@@ -55,13 +132,30 @@ const ResultsPanel: React.FC<ResultsPanelProps> = ({ travelPlan, isLoading, onCh
         )}
       </div>
       
-      {travelPlan.outfits && (
+      {travelPlan.capsule && travelPlan.capsule.length > 0 && (
+        <CapsuleWardrobe pieces={travelPlan.capsule} />
+      )}
+
+      {isFinished && travelPlan.type === 'travel' && (
+        <PackingList plan={travelPlan} canSave={isAuthenticated} />
+      )}
+
+      {(outfits || pendingOutfits > 0) && (
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
           transition={{ duration: 0.5, delay: 0.4 }}
         >
-          <OutfitSuggestions outfits={travelPlan.outfits} />
+          <OutfitSuggestions
+            outfits={outfits ?? []}
+            pendingOutfits={pendingOutfits}
+            isStreaming={isStreaming}
+            onRefreshOutfit={onRefreshOutfit}
+            filters={filters}
+            onFiltersChange={onFiltersChange}
+            isApplyingFilters={isApplyingFilters}
+            wishlist={wishlist}
+          />
         </motion.div>
       )}
     </motion.div>
@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { Share2, X, Loader, Copy, Check, Link2Off } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { SharedPlanLink, TravelPlan } from '../types';
+import { getShareLink, revokeShareLink, sharePlan } from '../services/sharing';
+
+interface ShareDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  plan: TravelPlan | null;
+}
+
+const ShareDialog: React.FC<ShareDialogProps> = ({ isOpen, onClose, plan }) => {
+  const [link, setLink] = useState<SharedPlanLink | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !plan) return;
+
+    setIsLoading(true);
+    setError(null);
+    setCopied(false);
+    getShareLink(plan.id)
+      .then(setLink)
+      .catch(err => {
+        console.error('Error loading share link:', err);
+        setError('Could not check whether this plan is shared');
+      })
+      .finally(() => setIsLoading(false));
+  }, [isOpen, plan]);
+
+  const handleShare = async () => {
+    if (!plan) return;
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      setLink(await sharePlan(plan));
+    } catch (err) {
+      console.error('Error sharing plan:', err);
+      setError('Could not create a share link');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!link) return;
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      await revokeShareLink(link.id);
+      setLink(null);
+    } catch (err) {
+      console.error('Error revoking share link:', err);
+      setError('Could not revoke this link');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!link) return;
+
+    try {
+      await navigator.clipboard.writeText(link.url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Error copying share link:', err);
+      setError('Could not copy the link; select it and copy it manually');
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, y: 20, scale: 0.95 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: 20, scale: 0.95 }}
+            transition={{ duration: 0.2 }}
+            className="bg-white rounded-xl border border-gray-100 shadow-md max-w-lg w-full mx-4 flex flex-col overflow-hidden"
+            onClick={event => event.stopPropagation()}
+          >
+            <div className="p-4 border-b border-gray-100 bg-gray-50 flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Share2 className="h-5 w-5 text-purple-500" />
+                <h2 className="text-lg font-light text-black">Share these looks</h2>
+              </div>
+              <button onClick={onClose} className="text-gray-500 hover:text-gray-700 transition-colors"><X size={20} /></button>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader className="h-5 w-5 text-purple-500 animate-spin" />
+              </div>
+            ) : (
+              <div className="p-4 space-y-4 text-sm">
+                {link ? (
+                  <>
+                    <p className="font-light text-gray-600">
+                      Anyone with this link can view the weather, looks and products, without signing in.
+                    </p>
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        readOnly
+                        value={link.url}
+                        onFocus={e => e.target.select()}
+                        className="flex-1 min-w-0 border border-gray-200 rounded-lg px-3 py-2 font-light outline-none"
+                        aria-label="Share link"
+                      />
+                      <button
+                        onClick={handleCopy}
+                        className="px-3 rounded-lg bg-black text-white hover:bg-gray-800 transition"
+                        aria-label="Copy link"
+                      >
+                        {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                      </button>
+                    </div>
+                    <div className="flex items-center justify-between gap-3">
+                      <button
+                        onClick={handleShare}
+                        disabled={isWorking}
+                        className="text-gray-600 hover:text-purple-600 transition-colors disabled:opacity-50"
+                      >
+                        Update with the current looks
+                      </button>
+                      <button
+                        onClick={handleRevoke}
+                        disabled={isWorking}
+                        className="flex items-center gap-1.5 text-red-500 hover:text-red-600 transition-colors disabled:opacity-50"
+                      >
+                        <Link2Off className="h-4 w-4" />
+                        Revoke link
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <p className="font-light text-gray-600">
+                      Publish a read-only copy of this plan. Later changes are not shared until you update the link.
+                    </p>
+                    <button
+                      onClick={handleShare}
+                      disabled={isWorking || !plan}
+                      className="flex items-center gap-2 px-4 py-2 rounded-lg bg-black text-white text-sm hover:bg-gray-800 transition disabled:opacity-50"
+                    >
+                      {isWorking && <Loader className="h-4 w-4 animate-spin" />}
+                      Create link
+                    </button>
+                  </>
+                )}
+                {error && <p className="text-red-600">{error}</p>}
+              </div>
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ShareDialog;
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { Loader, Sparkles, Link2Off, FileDown } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { TravelPlan } from '../types';
+import { loadSharedPlan } from '../services/sharing';
+import { navigate } from '../hooks/useRoute';
+import WeatherCard from './WeatherCard';
+import TripDaySelector from './TripDaySelector';
+import CapsuleWardrobe from './CapsuleWardrobe';
+import OutfitCard from './OutfitCard';
+import Lookbook from './Lookbook';
+import { printLookbook } from '../utils/print';
+
+interface SharedPlanViewProps {
+  shareId: string;
+}
+
+/**
+ * Public, read-only page for a shared plan. It does not require signing in.
+ */
+const SharedPlanView: React.FC<SharedPlanViewProps> = ({ shareId }) => {
+  const [plan, setPlan] = useState<TravelPlan | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedDay, setSelectedDay] = useState(0);
+
+  useEffect(() => {
+    setIsLoading(true);
+    setError(null);
+    loadSharedPlan(shareId)
+      .then(loaded => {
+        setPlan(loaded);
+        if (!loaded) setError('This link has been revoked or does not exist');
+      })
+      .catch(err => {
+        console.error('Error loading shared plan:', err);
+        setError('Could not load this lookbook');
+      })
+      .finally(() => setIsLoading(false));
+  }, [shareId]);
+
+  const tripDay = plan?.days?.[selectedDay];
+  const weather = tripDay?.weather ?? plan?.weather;
+  const outfits = tripDay?.outfits ?? plan?.outfits ?? [];
+  const title = plan?.destination || plan?.event || plan?.subject;
+
+  return (
+    <div className="min-h-screen bg-white">
+      <header className="border-b border-gray-100">
+        <div className="container mx-auto px-4 md:px-6 h-16 flex items-center justify-between">
+          <button onClick={() => navigate('/')} className="flex items-center space-x-1">
+            <span className="text-4xl font-medium tracking-tight text-black-600">A</span>
+            <span className="text-[9px] font-light tracking-[0.2em] text-black-400">DHIKAR</span>
+            <span className="text-4xl font-medium tracking-tight text-black-600">I</span>
+          </button>
+          <button
+            onClick={() => navigate('/')}
+            className="flex items-center gap-2 bg-gray-100 py-1 px-3 rounded-full text-sm shadow hover:bg-gray-200 transition"
+          >
+            <Sparkles className="h-4 w-4 text-green-600" />
+            <span className="font-light text-gray-700">Create your own looks</span>
+          </button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 max-w-[1920px]">
+        {isLoading ? (
+          <div className="flex justify-center py-24">
+            <Loader className="h-6 w-6 text-purple-500 animate-spin" />
+          </div>
+        ) : error || !plan ? (
+          <div className="flex flex-col items-center gap-3 py-24 text-center">
+            <Link2Off className="h-8 w-8 text-gray-400" />
+            <p className="text-gray-600 font-light">{error}</p>
+          </div>
+        ) : (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+            className="space-y-6"
+          >
+            <div className="flex items-center justify-between gap-4">
+              {title && <h1 className="text-2xl font-light text-black">{title}</h1>}
+              <button
+                onClick={printLookbook}
+                className="ml-auto flex items-center gap-1.5 text-sm font-light text-gray-600 hover:text-purple-600 transition-colors"
+                title="Print the looks, products and a packing checklist, or save them as a PDF"
+              >
+                <FileDown className="h-4 w-4" />
+                Export PDF
+              </button>
+            </div>
+            <Lookbook plan={plan} />
+
+            {plan.days && plan.days.length > 1 && (
+              <TripDaySelector days={plan.days} selectedIndex={selectedDay} onSelect={setSelectedDay} />
+            )}
+
+            {weather && <WeatherCard weather={weather} />}
+
+            {plan.capsule && plan.capsule.length > 0 && (
+              <CapsuleWardrobe pieces={plan.capsule} />
+            )}
+
+            <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
+              <div className="flex items-center gap-2 mb-6">
+                <Sparkles className="w-5 h-5 text-purple-500" />
+                <h3 className="text-xl font-semibold text-black">Shared looks</h3>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                {outfits.map(outfit => (
+                  <OutfitCard key={outfit.id} outfit={outfit} />
+                ))}
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SharedPlanView;
@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import { Store, X, Loader, Plus, Trash2 } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { StorePreferences } from '../types';
+import {
+  DEFAULT_STORE_PREFERENCES,
+  getStorePreferences,
+  MAX_PER_STORE_LIMIT,
+  normalizeDomain,
+  PARTNER_STORES,
+  saveStorePreferences,
+} from '../services/preferences';
+
+interface StoreSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type StoreChoice = 'preferred' | 'default' | 'blocked';
+
+const choices: { value: StoreChoice; label: string; activeColor: string }[] = [
+  { value: 'preferred', label: 'Preferred', activeColor: 'bg-green-600 text-white' },
+  { value: 'default', label: 'Default', activeColor: 'bg-gray-700 text-white' },
+  { value: 'blocked', label: 'Blocked', activeColor: 'bg-red-500 text-white' },
+];
+
+function choiceFor(preferences: StorePreferences, domain: string): StoreChoice {
+  if (preferences.preferred.includes(domain)) return 'preferred';
+  if (preferences.blocked.includes(domain)) return 'blocked';
+  return 'default';
+}
+
+function withChoice(preferences: StorePreferences, domain: string, choice: StoreChoice): StorePreferences {
+  return {
+    ...preferences,
+    preferred: choice === 'preferred'
+      ? [...preferences.preferred.filter(d => d !== domain), domain]
+      : preferences.preferred.filter(d => d !== domain),
+    blocked: choice === 'blocked'
+      ? [...preferences.blocked.filter(d => d !== domain), domain]
+      : preferences.blocked.filter(d => d !== domain),
+  };
+}
+
+const StoreSettings: React.FC<StoreSettingsProps> = ({ isOpen, onClose }) => {
+  const [preferences, setPreferences] = useState<StorePreferences>(DEFAULT_STORE_PREFERENCES);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newDomain, setNewDomain] = useState('');
+  const [newName, setNewName] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setIsLoading(true);
+    setError(null);
+    getStorePreferences()
+      .then(setPreferences)
+      .catch(err => {
+        console.error('Error loading store preferences:', err);
+        setError('Could not load your store preferences');
+      })
+      .finally(() => setIsLoading(false));
+  }, [isOpen]);
+
+  const stores = [...PARTNER_STORES, ...preferences.custom];
+  const isCustom = (domain: string) => preferences.custom.some(store => store.domain === domain);
+
+  const handleAddStore = (e: React.FormEvent) => {
+    e.preventDefault();
+    const domain = normalizeDomain(newDomain);
+    if (!domain) {
+      setError('Enter a store domain such as everlane.com');
+      return;
+    }
+    if (stores.some(store => store.domain === domain)) {
+      setError('That store is already in the list');
+      return;
+    }
+
+    setError(null);
+    setPreferences(prev => ({ ...prev, custom: [...prev.custom, { domain, name: newName.trim() || domain }] }));
+    setNewDomain('');
+    setNewName('');
+  };
+
+  const handleRemoveStore = (domain: string) => {
+    setPreferences(prev => ({
+      ...withChoice(prev, domain, 'default'),
+      custom: prev.custom.filter(store => store.domain !== domain),
+    }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveStorePreferences(preferences);
+      onClose();
+    } catch (err) {
+      console.error('Error saving store preferences:', err);
+      setError('Could not save your store preferences');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, y: 20, scale: 0.95 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: 20, scale: 0.95 }}
+            transition={{ duration: 0.2 }}
+            className="bg-white rounded-xl border border-gray-100 shadow-md max-w-lg w-full mx-4 max-h-[85vh] flex flex-col overflow-hidden"
+            onClick={event => event.stopPropagation()}
+          >
+            <div className="p-4 border-b border-gray-100 bg-gray-50 flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Store className="h-5 w-5 text-purple-500" />
+                <h2 className="text-lg font-light text-black">Store preferences</h2>
+              </div>
+              <button onClick={onClose} className="text-gray-500 hover:text-gray-700 transition-colors"><X size={20} /></button>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader className="h-5 w-5 text-purple-500 animate-spin" />
+              </div>
+            ) : (
+              <div className="flex-1 overflow-y-auto p-4 space-y-6">
+                <section className="space-y-2">
+                  <p className="text-sm font-light text-gray-600">
+                    Preferred stores are searched and listed first. Blocked stores are never shown.
+                  </p>
+                  {stores.map(store => {
+                    const choice = choiceFor(preferences, store.domain);
+                    return (
+                      <div key={store.domain} className="flex items-center justify-between gap-3 rounded-lg border border-gray-100 px-3 py-2">
+                        <span className="min-w-0">
+                          <span className="block text-sm text-black truncate">{store.name}</span>
+                          <span className="block text-xs font-light text-gray-500">{store.domain}</span>
+                        </span>
+                        <div className="flex items-center gap-1">
+                          {choices.map(({ value, label, activeColor }) => (
+                            <button
+                              key={value}
+                              onClick={() => setPreferences(prev => withChoice(prev, store.domain, value))}
+                              className={`text-xs px-2 py-1 rounded-md transition ${choice === value ? activeColor : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                              aria-pressed={choice === value}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                          {isCustom(store.domain) && (
+                            <button
+                              onClick={() => handleRemoveStore(store.domain)}
+                              className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                              aria-label={`Remove ${store.name}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </section>
+
+                <form onSubmit={handleAddStore} className="space-y-2">
+                  <h3 className="text-sm text-black">Add your own store</h3>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={newDomain}
+                      onChange={e => setNewDomain(e.target.value)}
+                      placeholder="everlane.com"
+                      className="flex-1 min-w-0 border border-gray-200 rounded-lg px-3 py-2 text-sm font-light outline-none"
+                    />
+                    <input
+                      type="text"
+                      value={newName}
+                      onChange={e => setNewName(e.target.value)}
+                      placeholder="Name (optional)"
+                      className="flex-1 min-w-0 border border-gray-200 rounded-lg px-3 py-2 text-sm font-light outline-none"
+                    />
+                    <button type="submit" className="px-3 rounded-lg bg-black text-white hover:bg-gray-800 transition" aria-label="Add store">
+                      <Plus className="h-4 w-4" />
+                    </button>
+                  </div>
+                </form>
+
+                <label className="flex items-center justify-between gap-3 text-sm">
+                  <span className="text-black">Products per store</span>
+                  <select
+                    value={preferences.perStoreLimit}
+                    onChange={e => setPreferences(prev => ({ ...prev, perStoreLimit: Number(e.target.value) }))}
+                    className="border border-gray-200 rounded-md px-2 py-1 bg-white font-light"
+                  >
+                    {Array.from({ length: MAX_PER_STORE_LIMIT }, (_, index) => index + 1).map(limit => (
+                      <option key={limit} value={limit}>{limit}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            )}
+
+            <div className="p-4 border-t border-gray-100 flex items-center justify-between gap-3">
+              <p className="text-red-600 text-sm">{error}</p>
+              <button
+                onClick={handleSave}
+                disabled={isLoading || isSaving}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-black text-white text-sm hover:bg-gray-800 transition disabled:opacity-50"
+              >
+                {isSaving && <Loader className="h-4 w-4 animate-spin" />}
+                Save
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default StoreSettings;
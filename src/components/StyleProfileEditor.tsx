@@ -0,0 +1,268 @@
+import React, { useEffect, useState } from 'react';
+import { UserRound, X, Loader } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Fit, GenderPresentation, Modesty, SizeRange, StyleProfile } from '../types';
+import { EMPTY_STYLE_PROFILE, getStyleProfile, saveStyleProfile } from '../services/profile';
+
+interface StyleProfileEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const presentations: { value: GenderPresentation; label: string }[] = [
+  { value: 'masculine', label: 'Masculine' },
+  { value: 'feminine', label: 'Feminine' },
+  { value: 'androgynous', label: 'Androgynous' },
+];
+
+const sizeRanges: { value: SizeRange; label: string }[] = [
+  { value: 'regular', label: 'Regular' },
+  { value: 'petite', label: 'Petite' },
+  { value: 'tall', label: 'Tall' },
+  { value: 'plus', label: 'Plus' },
+];
+
+const fits: { value: Fit; label: string }[] = [
+  { value: 'slim', label: 'Slim' },
+  { value: 'regular', label: 'Regular' },
+  { value: 'relaxed', label: 'Relaxed' },
+  { value: 'oversized', label: 'Oversized' },
+];
+
+const modestyLevels: { value: Modesty; label: string }[] = [
+  { value: 'none', label: 'No preference' },
+  { value: 'moderate', label: 'Moderate' },
+  { value: 'high', label: 'High' },
+];
+
+const sizeFields: { key: keyof StyleProfile['sizes']; label: string; placeholder: string }[] = [
+  { key: 'tops', label: 'Tops', placeholder: 'M' },
+  { key: 'bottoms', label: 'Bottoms', placeholder: '32' },
+  { key: 'shoes', label: 'Shoes', placeholder: '10' },
+  { key: 'dresses', label: 'Dresses', placeholder: '8' },
+];
+
+// Comma-separated text <-> list, e.g. "navy, olive"
+const toList = (text: string) => text.split(',').map(item => item.trim()).filter(Boolean);
+
+function ChoiceRow<T extends string>({ options, value, onChange }: {
+  options: { value: T; label: string }[];
+  value: T | undefined;
+  onChange: (value: T | undefined) => void;
+}) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {options.map(option => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onChange(value === option.value ? undefined : option.value)}
+          className={`text-xs px-3 py-1.5 rounded-full transition ${value === option.value ? 'bg-black text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+          aria-pressed={value === option.value}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+const StyleProfileEditor: React.FC<StyleProfileEditorProps> = ({ isOpen, onClose }) => {
+  const [profile, setProfile] = useState<StyleProfile>(EMPTY_STYLE_PROFILE);
+  const [favoriteColors, setFavoriteColors] = useState('');
+  const [dislikedItems, setDislikedItems] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setIsLoading(true);
+    setError(null);
+    getStyleProfile()
+      .then(loaded => {
+        setProfile(loaded);
+        setFavoriteColors(loaded.favoriteColors.join(', '));
+        setDislikedItems(loaded.dislikedItems.join(', '));
+      })
+      .catch(err => {
+        console.error('Error loading style profile:', err);
+        setError('Could not load your style profile');
+      })
+      .finally(() => setIsLoading(false));
+  }, [isOpen]);
+
+  const toggleFit = (fit: Fit) => {
+    setProfile(prev => ({
+      ...prev,
+      fits: prev.fits.includes(fit) ? prev.fits.filter(f => f !== fit) : [...prev.fits, fit],
+    }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveStyleProfile({
+        ...profile,
+        favoriteColors: toList(favoriteColors),
+        dislikedItems: toList(dislikedItems),
+      });
+      onClose();
+    } catch (err) {
+      console.error('Error saving style profile:', err);
+      setError('Could not save your style profile');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, y: 20, scale: 0.95 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: 20, scale: 0.95 }}
+            transition={{ duration: 0.2 }}
+            className="bg-white rounded-xl border border-gray-100 shadow-md max-w-lg w-full mx-4 max-h-[85vh] flex flex-col overflow-hidden"
+            onClick={event => event.stopPropagation()}
+          >
+            <div className="p-4 border-b border-gray-100 bg-gray-50 flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <UserRound className="h-5 w-5 text-purple-500" />
+                <h2 className="text-lg font-light text-black">Style profile</h2>
+              </div>
+              <button onClick={onClose} className="text-gray-500 hover:text-gray-700 transition-colors"><X size={20} /></button>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader className="h-5 w-5 text-purple-500 animate-spin" />
+              </div>
+            ) : (
+              <div className="flex-1 overflow-y-auto p-4 space-y-5 text-sm">
+                <p className="font-light text-gray-600">
+                  Every outfit and product search uses this profile. The Men and Female badges still win for a single plan.
+                </p>
+
+                <section className="space-y-2">
+                  <h3 className="text-black">Style presentation</h3>
+                  <ChoiceRow
+                    options={presentations}
+                    value={profile.genderPresentation}
+                    onChange={genderPresentation => setProfile(prev => ({ ...prev, genderPresentation }))}
+                  />
+                </section>
+
+                <section className="space-y-2">
+                  <h3 className="text-black">Sizes</h3>
+                  <ChoiceRow
+                    options={sizeRanges}
+                    value={profile.sizeRange}
+                    onChange={sizeRange => setProfile(prev => ({ ...prev, sizeRange }))}
+                  />
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                    {sizeFields.map(({ key, label, placeholder }) => (
+                      <label key={key} className="flex flex-col gap-1 text-xs font-light text-gray-600">
+                        {label}
+                        <input
+                          type="text"
+                          value={profile.sizes[key] ?? ''}
+                          onChange={e => setProfile(prev => ({ ...prev, sizes: { ...prev.sizes, [key]: e.target.value } }))}
+                          placeholder={placeholder}
+                          className="border border-gray-200 rounded-lg px-2 py-1.5 text-sm text-black outline-none"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                </section>
+
+                <section className="space-y-2">
+                  <h3 className="text-black">Fit</h3>
+                  <div className="flex flex-wrap gap-2">
+                    {fits.map(({ value, label }) => (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => toggleFit(value)}
+                        className={`text-xs px-3 py-1.5 rounded-full transition ${profile.fits.includes(value) ? 'bg-black text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                        aria-pressed={profile.fits.includes(value)}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </section>
+
+                <label className="flex flex-col gap-2">
+                  <span className="text-black">Favorite colors</span>
+                  <input
+                    type="text"
+                    value={favoriteColors}
+                    onChange={e => setFavoriteColors(e.target.value)}
+                    placeholder="navy, olive, cream"
+                    className="border border-gray-200 rounded-lg px-3 py-2 font-light outline-none"
+                  />
+                </label>
+
+                <label className="flex flex-col gap-2">
+                  <span className="text-black">Never suggest</span>
+                  <input
+                    type="text"
+                    value={dislikedItems}
+                    onChange={e => setDislikedItems(e.target.value)}
+                    placeholder="skinny jeans, crop tops"
+                    className="border border-gray-200 rounded-lg px-3 py-2 font-light outline-none"
+                  />
+                </label>
+
+                <section className="space-y-2">
+                  <h3 className="text-black">Modesty</h3>
+                  <ChoiceRow
+                    options={modestyLevels}
+                    value={profile.modesty}
+                    onChange={modesty => setProfile(prev => ({ ...prev, modesty }))}
+                  />
+                </section>
+
+                <label className="flex flex-col gap-2">
+                  <span className="text-black">Anything else?</span>
+                  <textarea
+                    value={profile.notes ?? ''}
+                    onChange={e => setProfile(prev => ({ ...prev, notes: e.target.value }))}
+                    rows={2}
+                    placeholder="e.g. I cover my hair, I prefer flat shoes"
+                    className="border border-gray-200 rounded-lg px-3 py-2 font-light outline-none resize-none"
+                  />
+                </label>
+              </div>
+            )}
+
+            <div className="p-4 border-t border-gray-100 flex items-center justify-between gap-3">
+              <p className="text-red-600 text-sm">{error}</p>
+              <button
+                onClick={handleSave}
+                disabled={isLoading || isSaving}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-black text-white text-sm hover:bg-gray-800 transition disabled:opacity-50"
+              >
+                {isSaving && <Loader className="h-4 w-4 animate-spin" />}
+                Save
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default StyleProfileEditor;
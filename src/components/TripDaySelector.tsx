@@ -0,0 +1,42 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { TripDay } from '../types';
+import { useUnits } from '../hooks/useUnits';
+import { formatTemperature } from '../utils/units';
+
+interface TripDaySelectorProps {
+  days: TripDay[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+}
+
+const TripDaySelector: React.FC<TripDaySelectorProps> = ({ days, selectedIndex, onSelect }) => {
+  const { units } = useUnits();
+
+  return (
+    <div className="flex gap-2 overflow-x-auto pb-1">
+      {days.map((day, index) => {
+        const isSelected = index === selectedIndex;
+        return (
+          <button
+            key={day.date}
+            onClick={() => onSelect(index)}
+            className={`flex flex-col items-center min-w-[4.5rem] px-3 py-2 rounded-lg border text-xs transition ${
+              isSelected
+                ? 'bg-black text-white border-black'
+                : 'bg-white text-gray-700 border-gray-100 hover:border-gray-300'
+            }`}
+          >
+            <span className="font-light">Day {index + 1}</span>
+            <span className="font-medium">{format(parseISO(day.date), 'EEE d')}</span>
+            <span className={`font-light ${isSelected ? 'text-gray-300' : 'text-gray-500'}`}>
+              {formatTemperature(day.weather.temperature, day.weather.units, units)}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TripDaySelector;
@@ -0,0 +1,235 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Shirt, X, Loader, Plus, Trash2, Camera } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { WardrobeCategory, WardrobeItem } from '../types';
+import {
+  addWardrobeItem,
+  listWardrobe,
+  removeWardrobeItem,
+  WARDROBE_CATEGORIES,
+  WARDROBE_PHOTO_TYPES,
+  wardrobePhotoProblem,
+} from '../services/wardrobe';
+
+interface WardrobeManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const categoryLabel = (type: WardrobeCategory) =>
+  WARDROBE_CATEGORIES.find(category => category.value === type)?.label ?? type;
+
+const WardrobeManager: React.FC<WardrobeManagerProps> = ({ isOpen, onClose }) => {
+  const [items, setItems] = useState<WardrobeItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [type, setType] = useState<WardrobeCategory>('top');
+  const [color, setColor] = useState('');
+  const [tags, setTags] = useState('');
+  const [photo, setPhoto] = useState<File | null>(null);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setIsLoading(true);
+    setError(null);
+    listWardrobe()
+      .then(setItems)
+      .catch(err => {
+        console.error('Error loading wardrobe:', err);
+        setError('Could not load your wardrobe');
+      })
+      .finally(() => setIsLoading(false));
+  }, [isOpen]);
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] ?? null;
+    const problem = file && wardrobePhotoProblem(file);
+    if (problem) {
+      e.target.value = '';
+      setError(problem);
+      return;
+    }
+    setError(null);
+    setPhoto(file);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError('Name the piece, e.g. "navy linen blazer"');
+      return;
+    }
+
+    setIsAdding(true);
+    setError(null);
+    try {
+      const added = await addWardrobeItem({
+        name,
+        type,
+        color,
+        tags: tags.split(',').map(tag => tag.trim()).filter(Boolean),
+        photo: photo ?? undefined,
+      });
+      setItems(prev => [added, ...prev]);
+      setName('');
+      setColor('');
+      setTags('');
+      setPhoto(null);
+      // Otherwise picking the same file for the next piece would not register as a change
+      if (photoInputRef.current) photoInputRef.current.value = '';
+    } catch (err) {
+      console.error('Error adding wardrobe item:', err);
+      setError('Could not add this piece');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRemove = async (item: WardrobeItem) => {
+    try {
+      await removeWardrobeItem(item);
+      setItems(prev => prev.filter(existing => existing.id !== item.id));
+    } catch (err) {
+      console.error('Error removing wardrobe item:', err);
+      setError('Could not remove this piece');
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, y: 20, scale: 0.95 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: 20, scale: 0.95 }}
+            transition={{ duration: 0.2 }}
+            className="bg-white rounded-xl border border-gray-100 shadow-md max-w-lg w-full mx-4 max-h-[85vh] flex flex-col overflow-hidden"
+            onClick={event => event.stopPropagation()}
+          >
+            <div className="p-4 border-b border-gray-100 bg-gray-50 flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Shirt className="h-5 w-5 text-purple-500" />
+                <h2 className="text-lg font-light text-black">My wardrobe</h2>
+              </div>
+              <button onClick={onClose} className="text-gray-500 hover:text-gray-700 transition-colors"><X size={20} /></button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-2">
+              <p className="text-sm font-light text-gray-600 mb-2">
+                New looks are built around what you own, and only the missing pieces are shopped for.
+              </p>
+              {isLoading ? (
+                <div className="flex justify-center py-8">
+                  <Loader className="h-5 w-5 text-purple-500 animate-spin" />
+                </div>
+              ) : items.length === 0 ? (
+                <p className="text-center py-8 text-gray-600 font-light">Add the clothes you already own</p>
+              ) : (
+                items.map(item => (
+                  <div key={item.id} className="flex items-center justify-between gap-3 rounded-lg border border-gray-100 px-3 py-2">
+                    <div className="flex-1 flex items-center gap-3 min-w-0">
+                      {item.imageUrl ? (
+                        <img src={item.imageUrl} alt={item.name} className="h-10 w-10 rounded-md object-cover bg-gray-50 flex-shrink-0" />
+                      ) : (
+                        <span className="h-10 w-10 rounded-md bg-gray-50 flex items-center justify-center flex-shrink-0">
+                          <Shirt className="h-4 w-4 text-gray-400" />
+                        </span>
+                      )}
+                      <span className="min-w-0">
+                        <span className="block text-sm text-black truncate">{item.name}</span>
+                        <span className="block text-xs font-light text-gray-500 truncate">
+                          {[categoryLabel(item.type), item.color, ...item.tags].filter(Boolean).join(' · ')}
+                        </span>
+                      </span>
+                    </div>
+                    <button
+                      onClick={() => handleRemove(item)}
+                      className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                      aria-label={`Remove ${item.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <form onSubmit={handleAdd} className="p-4 border-t border-gray-100 space-y-2">
+              <h3 className="text-sm text-black">Add a piece</h3>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={e => setName(e.target.value)}
+                  placeholder="Navy linen blazer"
+                  className="flex-1 min-w-0 border border-gray-200 rounded-lg px-3 py-2 text-sm font-light outline-none"
+                />
+                <select
+                  value={type}
+                  onChange={e => setType(e.target.value as WardrobeCategory)}
+                  className="border border-gray-200 rounded-lg px-2 py-2 bg-white text-sm font-light"
+                  aria-label="Type"
+                >
+                  {WARDROBE_CATEGORIES.map(({ value, label }) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={color}
+                  onChange={e => setColor(e.target.value)}
+                  placeholder="Color"
+                  className="w-28 border border-gray-200 rounded-lg px-3 py-2 text-sm font-light outline-none"
+                />
+                <input
+                  type="text"
+                  value={tags}
+                  onChange={e => setTags(e.target.value)}
+                  placeholder="Tags: formal, summer"
+                  className="flex-1 min-w-0 border border-gray-200 rounded-lg px-3 py-2 text-sm font-light outline-none"
+                />
+                <label
+                  className={`px-3 rounded-lg border flex items-center cursor-pointer transition ${photo ? 'border-purple-500 text-purple-600' : 'border-gray-200 text-gray-500 hover:text-gray-700'}`}
+                  title={photo ? photo.name : 'Add a photo'}
+                >
+                  <Camera className="h-4 w-4" />
+                  <input
+                    ref={photoInputRef}
+                    type="file"
+                    accept={WARDROBE_PHOTO_TYPES.join(',')}
+                    onChange={handlePhotoChange}
+                    className="hidden"
+                  />
+                </label>
+                <button
+                  type="submit"
+                  disabled={isAdding}
+                  className="px-3 rounded-lg bg-black text-white hover:bg-gray-800 transition disabled:opacity-50"
+                  aria-label="Add piece"
+                >
+                  {isAdding ? <Loader className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                </button>
+              </div>
+              {error && <p className="text-red-600 text-sm">{error}</p>}
+            </form>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default WardrobeManager;
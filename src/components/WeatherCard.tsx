@@ -1,32 +1,62 @@
 import React from 'react';
-import { Cloud, Droplets, Wind, Thermometer } from 'lucide-react';
-import { WeatherData } from '../types';
+import { Droplets, Wind, Thermometer, Sun, Sunset } from 'lucide-react';
+import { UnitSystem, WeatherData } from '../types';
 import { format, parseISO } from 'date-fns';
+import { useUnits } from '../hooks/useUnits';
+import { detectUnitSystem, formatTemperature, formatWindSpeed } from '../utils/units';
 
 interface WeatherCardProps {
   weather: WeatherData;
 }
 
+const unitOptions: { value: UnitSystem; label: string }[] = [
+  { value: 'metric', label: '°C' },
+  { value: 'imperial', label: '°F' },
+];
+
+const localTime = (time: string) => time.slice(11, 16); // "2025-06-01T20:41" -> "20:41"
+
 const WeatherCard: React.FC<WeatherCardProps> = ({ weather }) => {
   const date = typeof weather.date === 'string' ? parseISO(weather.date) : new Date(weather.date);
   const formattedDate = format(date, 'MMM d, yyyy');
+  const { units, setUnits } = useUnits();
+  const temperature = (value: number) => formatTemperature(value, weather.units, units);
+
+  // Picking the locale's own units goes back to following the locale
+  const chooseUnits = (next: UnitSystem) => setUnits(next === detectUnitSystem() ? null : next);
   
   return (
     <div className="bg-white rounded-lg border border-gray-100 overflow-hidden w-fit ml-auto">
       <div className="p-3 flex items-center gap-6">
         <div className="flex items-center gap-3">
-          <div className="text-2xl font-light text-black">{Math.round(weather.temperature)}°</div>
+          <div className="text-2xl font-light text-black">
+            {temperature(weather.temperature)}
+            {weather.temperatureMin !== undefined && (
+              <span className="text-sm text-gray-500">/{temperature(weather.temperatureMin)}</span>
+            )}
+          </div>
           <div>
             <h3 className="font-light text-black text-sm">{weather.location}</h3>
             <p className="text-xs text-gray-600 font-light">{formattedDate}</p>
+            {weather.climatology && (
+              <p
+                className="text-[10px] text-amber-600 font-light"
+                title="Averaged from recent years of historical data for this calendar date"
+              >
+                Typical climate · not a forecast
+              </p>
+            )}
           </div>
         </div>
         
-        <div className="flex items-center gap-4 text-xs border-l border-gray-100 pl-4">
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs border-l border-gray-100 pl-4">
           <div className="flex items-center gap-1">
             <Thermometer className="h-3 w-3 text-red-500" />
             <span className="text-gray-600 font-light">Feels</span>
-            <span className="font-light text-black">{Math.round(weather.details.feelsLike)}°</span>
+            <span className="font-light text-black">
+              {weather.details.feelsLikeMin !== undefined && `${temperature(weather.details.feelsLikeMin)}–`}
+              {temperature(weather.details.feelsLike)}
+            </span>
           </div>
           
           <div className="flex items-center gap-1">
@@ -36,7 +66,35 @@ const WeatherCard: React.FC<WeatherCardProps> = ({ weather }) => {
           
           <div className="flex items-center gap-1">
             <Wind className="h-3 w-3 text-cyan-500" />
-            <span className="font-light text-black">{weather.details.windSpeed} mph</span>
+            <span className="font-light text-black">{formatWindSpeed(weather.details.windSpeed, weather.units, units)}</span>
+          </div>
+
+          {weather.details.uvIndex !== undefined && (
+            <div className="flex items-center gap-1">
+              <Sun className="h-3 w-3 text-amber-500" />
+              <span className="text-gray-600 font-light">UV</span>
+              <span className="font-light text-black">{Math.round(weather.details.uvIndex)}</span>
+            </div>
+          )}
+
+          {weather.sunrise && weather.sunset && (
+            <div className="flex items-center gap-1" title="Sunrise and sunset, local time">
+              <Sunset className="h-3 w-3 text-orange-500" />
+              <span className="font-light text-black">{localTime(weather.sunrise)}–{localTime(weather.sunset)}</span>
+            </div>
+          )}
+
+          <div className="flex items-center rounded-md bg-gray-100 p-0.5">
+            {unitOptions.map(option => (
+              <button
+                key={option.value}
+                onClick={() => chooseUnits(option.value)}
+                className={`px-1.5 py-0.5 rounded transition ${units === option.value ? 'bg-white text-black shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                aria-pressed={units === option.value}
+              >
+                {option.label}
+              </button>
+            ))}
           </div>
         </div>
       </div>
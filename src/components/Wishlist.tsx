@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import { Heart, X, Trash2, ExternalLink, Shirt } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { WishlistItem } from '../types';
+import { Wishlist as WishlistState } from '../hooks/useWishlist';
+import { formatPrice } from '../utils/price';
+
+interface WishlistProps {
+  isOpen: boolean;
+  onClose: () => void;
+  wishlist: WishlistState;
+}
+
+type Grouping = 'outfit' | 'store';
+
+const groupings: { value: Grouping; label: string }[] = [
+  { value: 'outfit', label: 'By look' },
+  { value: 'store', label: 'By store' },
+];
+
+// Saved looks only make sense under the look grouping; they are left out of the store view
+function groupItems(items: WishlistItem[], grouping: Grouping): [string, WishlistItem[]][] {
+  const groups = new Map<string, WishlistItem[]>();
+  for (const item of items) {
+    if (grouping === 'store' && item.kind !== 'product') continue;
+    const name = grouping === 'outfit' ? item.outfitTitle : item.store ?? 'Other';
+    groups.set(name, [...(groups.get(name) ?? []), item]);
+  }
+  return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b));
+}
+
+const Wishlist: React.FC<WishlistProps> = ({ isOpen, onClose, wishlist }) => {
+  const [grouping, setGrouping] = useState<Grouping>('outfit');
+  const [error, setError] = useState<string | null>(null);
+
+  const groups = useMemo(() => groupItems(wishlist.items, grouping), [wishlist.items, grouping]);
+
+  const handleRemove = async (id: string) => {
+    setError(null);
+    try {
+      await wishlist.remove(id);
+    } catch (err) {
+      console.error('Error removing wishlist item:', err);
+      setError('Could not remove this item');
+    }
+  };
+
+  const renderItem = (item: WishlistItem) => {
+    const { product, outfit } = item;
+    return (
+      <div key={item.id} className="flex items-center justify-between gap-3 rounded-lg border border-gray-100 px-3 py-2">
+        {product ? (
+          <a href={product.link} target="_blank" rel="noopener noreferrer" className="flex-1 flex items-center gap-3 min-w-0 group">
+            <img src={product.image} alt={product.title} className="h-10 w-10 rounded-md object-cover bg-gray-50 flex-shrink-0" />
+            <span className="min-w-0">
+              <span className="block text-sm text-black truncate group-hover:text-purple-600 transition-colors">{product.title}</span>
+              <span className="block text-xs font-light text-gray-500">
+                {grouping === 'outfit' ? product.store : item.outfitTitle} · {formatPrice(product.price)}
+              </span>
+            </span>
+            <ExternalLink className="h-3 w-3 text-gray-400 flex-shrink-0" />
+          </a>
+        ) : (
+          <div className="flex-1 flex items-center gap-3 min-w-0">
+            <Shirt className="h-4 w-4 text-gray-400 flex-shrink-0" />
+            <span className="min-w-0">
+              <span className="block text-sm text-black">Whole look</span>
+              <span className="block text-xs font-light text-gray-500 line-clamp-2">{outfit?.description}</span>
+            </span>
+          </div>
+        )}
+        <button
+          onClick={() => handleRemove(item.id)}
+          className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+          aria-label="Remove from wishlist"
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, y: 20, scale: 0.95 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: 20, scale: 0.95 }}
+            transition={{ duration: 0.2 }}
+            className="bg-white rounded-xl border border-gray-100 shadow-md max-w-lg w-full mx-4 max-h-[80vh] flex flex-col overflow-hidden"
+            onClick={event => event.stopPropagation()}
+          >
+            <div className="p-4 border-b border-gray-100 bg-gray-50 flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Heart className="h-5 w-5 text-purple-500" />
+                <h2 className="text-lg font-light text-black">Wishlist</h2>
+              </div>
+              <button onClick={onClose} className="text-gray-500 hover:text-gray-700 transition-colors"><X size={20} /></button>
+            </div>
+
+            <div className="px-4 pt-4 flex items-center gap-2">
+              {groupings.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => setGrouping(value)}
+                  className={`text-xs px-3 py-1.5 rounded-full transition ${grouping === value ? 'bg-black text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                  aria-pressed={grouping === value}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {error && <p className="text-red-600 text-sm px-4 mt-2">{error}</p>}
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-5">
+              {groups.length === 0 ? (
+                <p className="text-center py-8 text-gray-600 font-light">
+                  {wishlist.items.length ? 'No saved products yet' : 'Tap the heart on a product or look to save it here'}
+                </p>
+              ) : (
+                groups.map(([name, items]) => (
+                  <section key={name} className="space-y-2">
+                    <h3 className="text-sm text-black">{name}</h3>
+                    {items.map(renderItem)}
+                  </section>
+                ))
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default Wishlist;
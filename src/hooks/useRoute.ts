@@ -0,0 +1,42 @@
+import { useState, useEffect } from 'react';
+
+/*
+ * Minimal path-based routing. The app is a single page at "/" and public share links live at
+ * "/share/<id>"; everything else, including the OAuth callback, falls through to the app.
+ */
+
+export type Route =
+  | { name: 'home' }
+  | { name: 'share'; shareId: string };
+
+const SHARE_PATH = /^\/share\/([^/]+)\/?$/;
+
+export function matchRoute(pathname: string): Route {
+  const share = pathname.match(SHARE_PATH);
+  if (share) return { name: 'share', shareId: decodeURIComponent(share[1]) };
+  return { name: 'home' };
+}
+
+export function sharePath(shareId: string): string {
+  return `/share/${encodeURIComponent(shareId)}`;
+}
+
+/**
+ * Client-side navigation without a page load.
+ */
+export function navigate(path: string) {
+  window.history.pushState({}, '', path);
+  window.dispatchEvent(new PopStateEvent('popstate'));
+}
+
+export function useRoute(): Route {
+  const [route, setRoute] = useState<Route>(() => matchRoute(window.location.pathname));
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(matchRoute(window.location.pathname));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  return route;
+}
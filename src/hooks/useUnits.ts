@@ -0,0 +1,18 @@
+import { useSyncExternalStore } from 'react';
+import { UnitSystem } from '../types';
+import { getUnitSystem, isUnitSystemOverridden, setUnitSystem, subscribeUnitSystem } from '../utils/units';
+
+export interface Units {
+  units: UnitSystem;
+  isAuto: boolean; // following the browser locale rather than a saved choice
+  setUnits: (units: UnitSystem | null) => void;
+}
+
+/**
+ * The weather unit preference, shared by every component that shows a temperature or wind speed.
+ */
+export function useUnits(): Units {
+  const units = useSyncExternalStore(subscribeUnitSystem, getUnitSystem);
+  const isAuto = !useSyncExternalStore(subscribeUnitSystem, isUnitSystemOverridden);
+  return { units, isAuto, setUnits: setUnitSystem };
+}
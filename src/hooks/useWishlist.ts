@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from 'react';
+import { OutfitItem, Product, WishlistItem } from '../types';
+import {
+  listWishlist,
+  outfitKey,
+  productKey,
+  removeWishlistItem,
+  saveOutfit,
+  saveProduct,
+} from '../services/wishlist';
+
+export interface Wishlist {
+  items: WishlistItem[];
+  isProductSaved: (product: Product) => boolean;
+  isOutfitSaved: (outfit: OutfitItem) => boolean;
+  toggleProduct: (product: Product, outfit: OutfitItem) => Promise<void>;
+  toggleOutfit: (outfit: OutfitItem) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+/**
+ * The signed-in user's wishlist, loaded once per sign-in and kept in sync as items are toggled.
+ */
+export function useWishlist(isAuthenticated: boolean): Wishlist {
+  const [items, setItems] = useState<WishlistItem[]>([]);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setItems([]);
+      return;
+    }
+
+    listWishlist()
+      .then(setItems)
+      .catch(error => console.error('Error loading wishlist:', error));
+  }, [isAuthenticated]);
+
+  const findByKey = useCallback((key: string) => items.find(item => item.key === key), [items]);
+
+  const remove = useCallback(async (id: string) => {
+    await removeWishlistItem(id);
+    setItems(prev => prev.filter(item => item.id !== id));
+  }, []);
+
+  const toggle = useCallback(async (key: string, save: () => Promise<WishlistItem>) => {
+    const existing = findByKey(key);
+    if (existing) {
+      await remove(existing.id);
+      return;
+    }
+    const saved = await save();
+    setItems(prev => [saved, ...prev.filter(item => item.key !== saved.key)]);
+  }, [findByKey, remove]);
+
+  return {
+    items,
+    isProductSaved: product => !!findByKey(productKey(product)),
+    isOutfitSaved: outfit => !!findByKey(outfitKey(outfit)),
+    toggleProduct: (product, outfit) => toggle(productKey(product), () => saveProduct(product, outfit)),
+    toggleOutfit: outfit => toggle(outfitKey(outfit), () => saveOutfit(outfit)),
+    remove,
+  };
+}
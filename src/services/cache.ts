@@ -0,0 +1,154 @@
+/*
+ * Response cache for third-party lookups (geocoding, forecasts, climate archives, product searches),
+ * kept in IndexedDB so repeat destinations and looks load instantly across sessions. Each source has
+ * its own time to live; when IndexedDB is unavailable (private windows, old browsers) every lookup
+ * simply goes to the network.
+ */
+
+export type CacheSource = 'geocoding' | 'forecast' | 'climate' | 'search';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export const CACHE_TTL: Record<CacheSource, number> = {
+  geocoding: 30 * DAY, // places do not move
+  forecast: 3 * HOUR,
+  climate: 30 * DAY, // archive data for past years is final
+  search: DAY,
+};
+
+const DB_NAME = 'travel-stylist-cache';
+const STORE = 'responses';
+
+interface CacheEntry {
+  key: string;
+  source: CacheSource;
+  value: unknown;
+  expiresAt: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+const stats = Object.fromEntries(
+  (Object.keys(CACHE_TTL) as CacheSource[]).map(source => [source, { hits: 0, misses: 0 }])
+) as Record<CacheSource, CacheStats>;
+
+// In development, hit rates are logged once after each burst of lookups (a plan, say)
+const SUMMARY_DELAY_MS = 2000;
+let summaryTimer: ReturnType<typeof setTimeout> | undefined;
+
+// Lookups that are still loading, so parallel callers share one request
+const inFlight = new Map<string, Promise<unknown>>();
+
+let database: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  database ??= new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') return resolve(null);
+
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+      store.createIndex('source', 'source');
+      store.createIndex('expiresAt', 'expiresAt');
+    };
+    request.onsuccess = () => {
+      deleteWhere(request.result, 'expiresAt', IDBKeyRange.upperBound(Date.now()));
+      resolve(request.result);
+    };
+    request.onerror = () => {
+      console.warn('Response cache unavailable:', request.error);
+      resolve(null);
+    };
+  });
+  return database;
+}
+
+function run<T>(db: IDBDatabase, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function deleteWhere(db: IDBDatabase, index: 'source' | 'expiresAt', range: IDBKeyRange) {
+  const request = db.transaction(STORE, 'readwrite').objectStore(STORE).index(index).openCursor(range);
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    cursor.delete();
+    cursor.continue();
+  };
+}
+
+// "  Paris " and "paris" are the same lookup
+function normalizeKey(key: string | Record<string, unknown>): string {
+  const text = typeof key === 'string' ? key : JSON.stringify(key);
+  return text.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * The cached response for `key` if it has not expired, otherwise the result of `load`, which is stored
+ * for the source's TTL. Failed loads are never cached.
+ */
+export function cached<T>(source: CacheSource, key: string | Record<string, unknown>, load: () => Promise<T>): Promise<T> {
+  const id = `${source}:${normalizeKey(key)}`;
+  scheduleSummary();
+  const pending = inFlight.get(id);
+  if (pending) {
+    stats[source].hits++;
+    return pending as Promise<T>;
+  }
+
+  const lookup = (async () => {
+    const db = await openDatabase();
+    const entry = db ? await run<CacheEntry | undefined>(db, 'readonly', store => store.get(id)).catch(() => undefined) : undefined;
+    if (entry && entry.expiresAt > Date.now()) {
+      stats[source].hits++;
+      return entry.value as T;
+    }
+
+    stats[source].misses++;
+    const value = await load();
+    if (db) {
+      const fresh: CacheEntry = { key: id, source, value, expiresAt: Date.now() + CACHE_TTL[source] };
+      run(db, 'readwrite', store => store.put(fresh)).catch(error => console.warn('Could not cache response:', error));
+    }
+    return value;
+  })();
+
+  inFlight.set(id, lookup);
+  const settle = () => inFlight.delete(id);
+  lookup.then(settle, settle);
+  return lookup;
+}
+
+/**
+ * Drop every cached response from `source`, e.g. searches after the preferences they depend on change.
+ */
+export async function clearCache(source: CacheSource): Promise<void> {
+  const db = await openDatabase();
+  if (db) deleteWhere(db, 'source', IDBKeyRange.only(source));
+}
+
+/**
+ * Hits and misses per source since the page loaded.
+ */
+export function getCacheStats(): Record<CacheSource, CacheStats> {
+  return Object.fromEntries(
+    Object.entries(stats).map(([source, counts]) => [source, { ...counts }])
+  ) as Record<CacheSource, CacheStats>;
+}
+
+function scheduleSummary() {
+  if (!import.meta.env.DEV) return;
+  clearTimeout(summaryTimer);
+  summaryTimer = setTimeout(() => {
+    console.info('Response cache hits and misses since the page loaded:');
+    console.table(getCacheStats());
+  }, SUMMARY_DELAY_MS);
+}
@@ -0,0 +1,33 @@
+/*
+ * Packing checklists: which items of a plan's packing list the user has checked off, stored per
+ * plan in the packing_checklists table. The list itself is built by buildPackingList().
+ */
+
+import { supabase } from './supabase';
+
+export async function getCheckedItems(planId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('packing_checklists')
+    .select('checked')
+    .eq('plan_id', planId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return (data?.checked as string[] | undefined) ?? [];
+}
+
+export async function saveCheckedItems(planId: string, checked: string[]): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return;
+
+  const { error } = await supabase
+    .from('packing_checklists')
+    .upsert({
+      user_id: user.id,
+      plan_id: planId,
+      checked,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'user_id,plan_id' });
+
+  if (error) throw new Error(error.message);
+}
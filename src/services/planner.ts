@@ -0,0 +1,453 @@
+/*
+ * Intent dispatcher: turns the ExtractedInfo returned by extractTravelInfo into a finished TravelPlan.
+ * Every intent type has its own handler so that its fields reach generateOutfitSuggestions intact.
+ */
+
+import { format } from 'date-fns';
+import {
+  Budget,
+  ChatMessage,
+  ConversationContext,
+  IntentType,
+  OutfitFilters,
+  OutfitItem,
+  Place,
+  SuggestionParams,
+  TravelPlan,
+  TripDay,
+  WeatherData,
+} from '../types';
+import {
+  ExtractedInfo,
+  generateCapsulePlan,
+  generateOutfitSuggestions,
+  generateReplacementOutfit,
+  streamOutfitSuggestions,
+} from './openai';
+import { findPlaces, getTripForecast, getWeatherForecast } from './weather';
+import { SearchOptions, searchProducts } from './shopping';
+import { getUnitSystem } from '../utils/units';
+import { isAmbiguous, MAX_PLACE_CHOICES, rankPlaces } from '../utils/places';
+
+/** Receives partial plans (status 'loading') while a plan is still being generated. */
+export type PlanUpdate = (plan: TravelPlan) => void;
+
+/** Asks the user which of several places with the same name they meant; rejects if none of them. */
+export type PlaceChooser = (candidates: Place[]) => Promise<Place>;
+
+/** The user was asked which place they meant and it was none of the candidates. */
+export class PlaceNotListedError extends Error {
+  constructor() {
+    super('None of the suggested places was the destination');
+    this.name = 'PlaceNotListedError';
+  }
+}
+
+/** Turns a destination name into a place, given the message it came from. */
+type PlaceResolver = (destination: string, message: string) => Promise<Place>;
+
+type IntentHandler = (
+  info: ExtractedInfo,
+  filters: OutfitFilters,
+  onUpdate: PlanUpdate,
+  context: ConversationContext | undefined,
+  resolvePlace: PlaceResolver
+) => Promise<TravelPlan>;
+
+/** The plan on screen and the conversation around it, for follow-up messages. */
+export interface Conversation {
+  plan: TravelPlan | null;
+  context: ConversationContext;
+  choosePlace?: PlaceChooser; // without it, ambiguous destinations go to the best-ranked match
+}
+
+// Chat turns sent along with each message
+const HISTORY_MESSAGES = 8;
+
+/** Intent types whose context is a single free-text subject (a movie title, some lyrics, an activity...). */
+type SubjectIntent = Exclude<IntentType, 'travel'>;
+
+function createPlanId(): string {
+  return Math.random().toString(36).substring(2, 9);
+}
+
+function withFilters(params: SuggestionParams, filters: OutfitFilters): SuggestionParams {
+  return {
+    ...params,
+    audience: filters.audience,
+    occasions: filters.occasions.length ? filters.occasions : undefined,
+  };
+}
+
+function searchOptions({ audience, budget }: SuggestionParams): SearchOptions {
+  return { audience, budget };
+}
+
+async function attachProducts(outfits: OutfitItem[], params: SuggestionParams): Promise<OutfitItem[]> {
+  return Promise.all(
+    outfits.map(async outfit => ({
+      ...outfit,
+      products: await searchProducts(outfit, searchOptions(params)),
+    }))
+  );
+}
+
+/**
+ * Generate the capsule wardrobe and per-day outfits for a multi-day trip, without products.
+ */
+async function planTripDays(
+  params: SuggestionParams,
+  forecasts: WeatherData[]
+): Promise<{ days: TripDay[]; capsule: string[] }> {
+  const capsulePlan = await generateCapsulePlan(params, forecasts);
+  if (!capsulePlan.days.length) throw new Error('Could not plan outfits for this trip. Please try again.');
+
+  const days = forecasts.map((weather, index) => {
+    const planned = capsulePlan.days.find(day => day.date === weather.date) ?? capsulePlan.days[index];
+    return { date: weather.date, weather, outfits: planned?.outfits ?? [] };
+  });
+
+  return { days, capsule: capsulePlan.capsule };
+}
+
+/**
+ * Generate the capsule wardrobe and per-day outfits for a multi-day trip and fetch their products.
+ */
+async function buildTripDays(
+  params: SuggestionParams,
+  forecasts: WeatherData[]
+): Promise<{ days: TripDay[]; capsule: string[] }> {
+  const { days, capsule } = await planTripDays(params, forecasts);
+  const capsuleParams = { ...params, capsule };
+
+  return {
+    days: await Promise.all(days.map(async day => ({ ...day, outfits: await attachProducts(day.outfits, capsuleParams) }))),
+    capsule,
+  };
+}
+
+/**
+ * Keeps the latest snapshot of a plan that is still loading and reports every change to `onUpdate`.
+ * Product searches are started per outfit so cards fill in as soon as their own search returns.
+ * Once the plan is finished or abandoned, late results are dropped so they cannot overwrite what
+ * the caller shows instead.
+ */
+function createPlanStream(initial: TravelPlan, params: SuggestionParams, onUpdate: PlanUpdate) {
+  let current: TravelPlan = { ...initial, status: 'loading' };
+  let settled = false;
+  const searches: Promise<void>[] = [];
+
+  const update = (next: TravelPlan) => {
+    if (settled) return;
+    current = next;
+    onUpdate(current);
+  };
+
+  const findProducts = (outfit: OutfitItem) => {
+    searches.push(
+      searchProducts(outfit, searchOptions(params)).then(products =>
+        update(replaceOutfit(current, { ...outfit, products }))
+      )
+    );
+  };
+
+  return {
+    get plan() {
+      return current;
+    },
+    update,
+    findProducts,
+    /** Wait for every product search and restore the plan's final status. */
+    async finish(): Promise<TravelPlan> {
+      const results = await Promise.allSettled(searches);
+      settled = true;
+      const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (failed) throw failed.reason;
+      return { ...current, status: initial.status };
+    },
+    /** Stop reporting after a failure, and wait out the searches so none of them rejects unhandled. */
+    async abandon(): Promise<void> {
+      settled = true;
+      await Promise.allSettled(searches);
+    },
+  };
+}
+
+/**
+ * Stream the four suggestions for a plan into `onUpdate` one card at a time, then their products.
+ */
+async function streamOutfits(
+  plan: TravelPlan,
+  params: SuggestionParams,
+  onUpdate: PlanUpdate,
+  context?: ConversationContext
+): Promise<TravelPlan> {
+  const stream = createPlanStream({ ...plan, outfits: [] }, params, onUpdate);
+  stream.update(stream.plan);
+
+  try {
+    await streamOutfitSuggestions(params, outfit => {
+      stream.update({ ...stream.plan, outfits: [...(stream.plan.outfits ?? []), outfit] });
+      stream.findProducts(outfit);
+    }, context);
+    if (!stream.plan.outfits?.length) throw new Error('Could not generate outfits. Please try again.');
+  } catch (error) {
+    await stream.abandon();
+    throw error;
+  }
+
+  return stream.finish();
+}
+
+/**
+ * Plan the capsule and daily outfits of a multi-day trip, then fill in products card by card.
+ */
+async function streamTrip(
+  plan: TravelPlan,
+  params: SuggestionParams,
+  forecasts: WeatherData[],
+  onUpdate: PlanUpdate
+): Promise<TravelPlan> {
+  onUpdate({ ...plan, status: 'loading' });
+  const { days, capsule } = await planTripDays(params, forecasts);
+  const capsuleParams = { ...params, capsule };
+  const stream = createPlanStream({
+    ...plan,
+    endDate: days[days.length - 1].date,
+    outfits: days[0].outfits,
+    days,
+    capsule,
+    params: capsuleParams,
+  }, capsuleParams, onUpdate);
+
+  stream.update(stream.plan);
+  days.forEach(day => day.outfits.forEach(stream.findProducts));
+  return stream.finish();
+}
+
+/**
+ * Resolves destinations against the geocoder. The current plan's place is reused while the destination
+ * stays the same; otherwise country or state names in the message pick between same-named places, and
+ * the user is asked when they don't.
+ */
+function createPlaceResolver(current: TravelPlan | null, choosePlace?: PlaceChooser): PlaceResolver {
+  return async (destination, message) => {
+    if (current?.place && sameText(destination, current.destination)) return current.place;
+
+    const ranked = rankPlaces(await findPlaces(destination), message);
+    if (!choosePlace || !isAmbiguous(ranked, message)) return ranked[0];
+    return choosePlace(ranked.slice(0, MAX_PLACE_CHOICES));
+  };
+}
+
+async function planTravel(
+  info: ExtractedInfo,
+  filters: OutfitFilters,
+  onUpdate: PlanUpdate,
+  context: ConversationContext | undefined,
+  resolvePlace: PlaceResolver
+): Promise<TravelPlan> {
+  const destination = info.destination || info.location;
+  if (!destination) throw new Error('Please tell me where you are traveling to.');
+
+  // The extracted location can carry the region a destination is in ("Paris" in "Texas")
+  const place = await resolvePlace(destination, [info.raw, info.location].filter(Boolean).join(' '));
+  const startDate = info.date || format(new Date(), 'yyyy-MM-dd');
+  const units = getUnitSystem();
+  const { days: forecasts, warning } = info.endDate && info.endDate > startDate
+    ? await getTripForecast(place, startDate, info.endDate, units)
+    : { days: [await getWeatherForecast(place, startDate, units)], warning: undefined };
+  const weatherData = forecasts[0];
+  const planWarning = warning ?? weatherData.warning;
+
+  const params = withFilters({
+    weather: weatherData,
+    event: info.event,
+    activity: info.activity,
+    refinement: info.refinement,
+    budget: info.budget,
+  }, filters);
+
+  const plan: TravelPlan = {
+    id: createPlanId(),
+    destination,
+    place,
+    date: weatherData.date,
+    event: info.event,
+    weather: weatherData,
+    params,
+    status: planWarning ? 'warning' : 'success',
+    warning: planWarning,
+    type: 'travel',
+  };
+
+  if (forecasts.length > 1) return streamTrip(plan, params, forecasts, onUpdate);
+  return streamOutfits(plan, params, onUpdate, context);
+}
+
+/**
+ * Builds a handler for intents driven by one text field. Falls back to the raw message when the model
+ * classified the intent but left its field empty, so the stylist never gets an empty context.
+ */
+function planFromSubject(type: SubjectIntent): IntentHandler {
+  return async (info, filters, onUpdate, context) => {
+    const subject = info[type]?.trim() || info.raw?.trim() || '';
+    const params = withFilters({ refinement: info.refinement, budget: info.budget }, filters);
+    params[type] = subject;
+
+    return streamOutfits({
+      id: createPlanId(),
+      event: type === 'event' ? subject : undefined,
+      subject,
+      params,
+      status: 'success',
+      type,
+    }, params, onUpdate, context);
+  };
+}
+
+const handlers: Record<IntentType, IntentHandler> = {
+  travel: planTravel,
+  event: planFromSubject('event'),
+  lyrics: planFromSubject('lyrics'),
+  movie: planFromSubject('movie'),
+  anime: planFromSubject('anime'),
+  sports: planFromSubject('sports'),
+  culture: planFromSubject('culture'),
+  activity: planFromSubject('activity'),
+  item: planFromSubject('item'),
+};
+
+function sameText(a?: string, b?: string): boolean {
+  return !a || !b || a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * A refinement applies to the current plan unless the message also moved it somewhere else
+ * (another destination, other dates or another subject); that starts a new plan instead.
+ */
+function isFollowUp(plan: TravelPlan | null, info: ExtractedInfo): plan is TravelPlan {
+  if (!info.refinement || !plan?.params || plan.type !== info.type) return false;
+  if (info.type === 'travel') {
+    return sameText(info.destination || info.location, plan.destination)
+      && sameText(info.date, plan.date)
+      && sameText(info.endDate, plan.endDate);
+  }
+  return sameText(info[info.type], plan.subject);
+}
+
+/**
+ * Rework the plan on screen for a follow-up such as "more formal" or "swap the shoes". The weather and
+ * other context are kept; the outfits (or the trip capsule) are regenerated with the refinement.
+ */
+async function refinePlan(
+  plan: TravelPlan,
+  refinement: string,
+  budget: Budget | undefined,
+  filters: OutfitFilters,
+  onUpdate: PlanUpdate,
+  context: ConversationContext
+): Promise<TravelPlan> {
+  const params = withFilters({
+    ...plan.params,
+    capsule: undefined,
+    refinement,
+    budget: budget ?? plan.params?.budget,
+  }, filters);
+  const refined: TravelPlan = { ...plan, id: createPlanId(), params, status: plan.warning ? 'warning' : 'success' };
+
+  if (plan.days && plan.days.length > 1) {
+    return streamTrip({ ...refined, days: undefined, outfits: undefined }, params, plan.days.map(day => day.weather), onUpdate);
+  }
+  return streamOutfits(refined, params, onUpdate, context);
+}
+
+/**
+ * Condense the chat history and the plan on screen into the context sent with the next message.
+ */
+export function buildConversationContext(history: ChatMessage[], plan: TravelPlan | null): ConversationContext {
+  return {
+    history: history.slice(-HISTORY_MESSAGES).map(({ type, content }) => ({ type, content })),
+    plan: plan && plan.type !== 'error' && plan.status !== 'error'
+      ? {
+        type: plan.type,
+        destination: plan.destination,
+        date: plan.date,
+        endDate: plan.endDate,
+        event: plan.event,
+        subject: plan.subject,
+        refinement: plan.params?.refinement,
+        outfits: (plan.outfits ?? []).map(({ type, description }) => ({ type, description })),
+      }
+      : undefined,
+  };
+}
+
+/**
+ * Route an extracted intent through its pipeline. Unknown types from the model are styled as free-text items.
+ * Follow-ups that refine the current plan rework it instead of starting over.
+ * Partial plans are passed to `onUpdate` as the weather, outfits and products arrive.
+ * When a destination could be several places, `conversation.choosePlace` asks the user which one.
+ */
+export async function createPlan(
+  info: ExtractedInfo,
+  filters: OutfitFilters,
+  onUpdate: PlanUpdate = () => {},
+  conversation?: Conversation
+): Promise<TravelPlan> {
+  const current = conversation?.plan ?? null;
+  if (conversation && isFollowUp(current, info)) {
+    return refinePlan(current, info.refinement!, info.budget, filters, onUpdate, conversation.context);
+  }
+
+  const handler = handlers[info.type] ?? handlers.item;
+  return handler(info, filters, onUpdate, conversation?.context, createPlaceResolver(current, conversation?.choosePlace));
+}
+
+/**
+ * Regenerate every outfit of a plan under new filter badges, keeping its weather and other context.
+ */
+export async function applyFilters(plan: TravelPlan, filters: OutfitFilters): Promise<TravelPlan> {
+  const params = withFilters(plan.params ?? {}, filters);
+
+  if (plan.days?.length) {
+    const { days, capsule } = await buildTripDays(params, plan.days.map(day => day.weather));
+    return { ...plan, params: { ...params, capsule }, outfits: days[0].outfits, days, capsule };
+  }
+
+  const outfitSuggestions = await generateOutfitSuggestions(params);
+  if (!outfitSuggestions.length) throw new Error('Could not restyle this plan. Please try again.');
+
+  return { ...plan, params, outfits: await attachProducts(outfitSuggestions, params) };
+}
+
+/**
+ * Regenerate one outfit of an existing plan with the same context, asking for something different from
+ * the other cards of the same day. The replacement is a different look with its own id, so a saved
+ * original does not show as saved on it; swap it in with `replaceOutfit(plan, replacement, outfitId)`.
+ */
+export async function refreshOutfit(plan: TravelPlan, outfitId: string): Promise<OutfitItem> {
+  const day = plan.days?.find(tripDay => tripDay.outfits.some(outfit => outfit.id === outfitId));
+  const params = day ? { ...plan.params, weather: day.weather } : plan.params ?? {};
+  const others = (day?.outfits ?? plan.outfits ?? []).filter(outfit => outfit.id !== outfitId);
+
+  const replacement = await generateReplacementOutfit(params, others);
+
+  const [withProducts] = await attachProducts([replacement], params);
+  return withProducts;
+}
+
+/**
+ * Swap an outfit wherever it appears in the plan (top-level outfits and trip days). `outfitId` is the
+ * outfit being replaced, when the replacement is a different look with an id of its own.
+ */
+export function replaceOutfit(plan: TravelPlan, replacement: OutfitItem, outfitId = replacement.id): TravelPlan {
+  const swap = (outfits: OutfitItem[]) =>
+    outfits.map(outfit => (outfit.id === outfitId ? replacement : outfit));
+
+  return {
+    ...plan,
+    outfits: plan.outfits && swap(plan.outfits),
+    days: plan.days?.map(day => ({ ...day, outfits: swap(day.outfits) })),
+  };
+}
@@ -0,0 +1,91 @@
+/*
+ * Saved plans: every finished TravelPlan is stored in the saved_plans table as JSON so it can be
+ * reopened from the history list exactly as it was generated, without calling the APIs again.
+ */
+
+import { SavedPlanSummary, TravelPlan } from '../types';
+import { supabase } from './supabase';
+
+interface SavedPlanRow {
+  id: string;
+  plan_id: string;
+  type: SavedPlanSummary['type'];
+  title: string;
+  plan_date: string | null;
+  created_at: string;
+}
+
+/**
+ * The destination, event or subject a plan is listed under.
+ */
+export function planTitle(plan: TravelPlan): string {
+  return plan.destination || plan.event || plan.subject || 'Outfit plan';
+}
+
+function toSummary(row: SavedPlanRow): SavedPlanSummary {
+  return {
+    id: row.id,
+    planId: row.plan_id,
+    type: row.type,
+    title: row.title,
+    date: row.plan_date ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Store a finished plan for the signed-in user, or update it after outfits were refreshed or restyled.
+ * Plans that are still loading or failed are not saved.
+ */
+export async function savePlan(plan: TravelPlan): Promise<void> {
+  if (plan.type === 'error' || plan.status === 'loading' || plan.status === 'error') return;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return;
+
+  const { error } = await supabase
+    .from('saved_plans')
+    .upsert({
+      user_id: user.id,
+      plan_id: plan.id,
+      type: plan.type,
+      title: planTitle(plan),
+      plan_date: plan.date ?? null,
+      plan,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'user_id,plan_id' });
+
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * List the signed-in user's saved plans, newest first.
+ */
+export async function listSavedPlans(): Promise<SavedPlanSummary[]> {
+  const { data, error } = await supabase
+    .from('saved_plans')
+    .select('id, plan_id, type, title, plan_date, created_at')
+    .order('created_at', { ascending: false });
+
+  if (error) throw new Error(error.message);
+  return (data as SavedPlanRow[]).map(toSummary);
+}
+
+/**
+ * Load the full plan behind a history entry.
+ */
+export async function loadSavedPlan(id: string): Promise<TravelPlan> {
+  const { data, error } = await supabase
+    .from('saved_plans')
+    .select('plan')
+    .eq('id', id)
+    .single();
+
+  if (error) throw new Error(error.message);
+  return data.plan as TravelPlan;
+}
+
+export async function deleteSavedPlan(id: string): Promise<void> {
+  const { error } = await supabase.from('saved_plans').delete().eq('id', id);
+  if (error) throw new Error(error.message);
+}
@@ -0,0 +1,82 @@
+/*
+ * Store preferences: preferred, blocked and custom retailers plus the per-store product cap, kept in
+ * the store_preferences table. The search-products edge function reads them for every search.
+ */
+
+import { CustomStore, StorePreferences } from '../types';
+import { supabase } from './supabase';
+import { clearCache } from './cache';
+
+// Mirrors PARTNER_STORES in supabase/functions/_shared/products/stores.ts
+export const PARTNER_STORES: CustomStore[] = [
+  { domain: 'armaniexchange.com', name: 'AX' },
+  { domain: 'ae.com', name: 'AE' },
+  { domain: 'hm.com', name: 'H&M' },
+  { domain: 'target.com', name: 'Target' },
+  { domain: 'forever21.com', name: 'Forever 21' },
+  { domain: 'shein.com', name: 'Shein' },
+  { domain: 'uniqlo.com', name: 'Uniqlo' },
+  { domain: 'zara.com', name: 'Zara' },
+  { domain: 'nordstrom.com', name: 'Nordstrom' },
+  { domain: 'asos.com', name: 'ASOS' },
+  { domain: 'fashionnova.com', name: 'Fashion Nova' },
+  { domain: 'coach.com', name: 'Coach' },
+];
+
+export const DEFAULT_STORE_PREFERENCES: StorePreferences = {
+  preferred: [],
+  blocked: [],
+  custom: [],
+  perStoreLimit: 1,
+};
+
+export const MAX_PER_STORE_LIMIT = 6;
+
+/**
+ * Reduce input such as "https://www.Everlane.com/men" to "everlane.com"; null if it is not a domain.
+ */
+export function normalizeDomain(input: string): string | null {
+  const host = input.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').split(/[/?#]/)[0].replace(/^www\./, '');
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(host) ? host : null;
+}
+
+export async function getStorePreferences(): Promise<StorePreferences> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return DEFAULT_STORE_PREFERENCES;
+
+  const { data, error } = await supabase
+    .from('store_preferences')
+    .select('preferred_stores, blocked_stores, custom_stores, per_store_limit')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!data) return DEFAULT_STORE_PREFERENCES;
+
+  return {
+    preferred: data.preferred_stores ?? [],
+    blocked: data.blocked_stores ?? [],
+    custom: data.custom_stores ?? [],
+    perStoreLimit: data.per_store_limit ?? DEFAULT_STORE_PREFERENCES.perStoreLimit,
+  };
+}
+
+export async function saveStorePreferences(preferences: StorePreferences): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Please sign in to save your store preferences');
+
+  const { error } = await supabase
+    .from('store_preferences')
+    .upsert({
+      user_id: user.id,
+      preferred_stores: preferences.preferred,
+      blocked_stores: preferences.blocked,
+      custom_stores: preferences.custom,
+      per_store_limit: preferences.perStoreLimit,
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) throw new Error(error.message);
+  // Cached searches were ranked and filtered with the old preferences
+  await clearCache('search');
+}
@@ -0,0 +1,64 @@
+/*
+ * Style profile: who the stylist is dressing (presentation, sizes, fit, colors, dislikes, modesty).
+ * Kept in the profiles table; the edge functions read it for every generation and product search.
+ */
+
+import { StyleProfile } from '../types';
+import { supabase } from './supabase';
+import { clearCache } from './cache';
+
+export const EMPTY_STYLE_PROFILE: StyleProfile = {
+  sizes: {},
+  fits: [],
+  favoriteColors: [],
+  dislikedItems: [],
+};
+
+export async function getStyleProfile(): Promise<StyleProfile> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return EMPTY_STYLE_PROFILE;
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('gender_presentation, sizes, size_range, fits, favorite_colors, disliked_items, modesty, notes')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!data) return EMPTY_STYLE_PROFILE;
+
+  return {
+    genderPresentation: data.gender_presentation ?? undefined,
+    sizes: data.sizes ?? {},
+    sizeRange: data.size_range ?? undefined,
+    fits: data.fits ?? [],
+    favoriteColors: data.favorite_colors ?? [],
+    dislikedItems: data.disliked_items ?? [],
+    modesty: data.modesty ?? undefined,
+    notes: data.notes ?? undefined,
+  };
+}
+
+export async function saveStyleProfile(profile: StyleProfile): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Please sign in to save your style profile');
+
+  const { error } = await supabase
+    .from('profiles')
+    .upsert({
+      id: user.id,
+      gender_presentation: profile.genderPresentation ?? null,
+      sizes: profile.sizes,
+      size_range: profile.sizeRange ?? null,
+      fits: profile.fits,
+      favorite_colors: profile.favoriteColors,
+      disliked_items: profile.dislikedItems,
+      modesty: profile.modesty ?? null,
+      notes: profile.notes?.trim() || null,
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) throw new Error(error.message);
+  // Cached searches were shaped by the old profile
+  await clearCache('search');
+}
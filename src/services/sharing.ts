@@ -0,0 +1,86 @@
+/*
+ * Share links: a read-only snapshot of a plan in the shared_plans table, readable by anyone who
+ * has the link through the get_shared_plan function. Revoking a link deletes the snapshot.
+ */
+
+import { SharedPlanLink, TravelPlan } from '../types';
+import { supabase } from './supabase';
+import { sharePath } from '../hooks/useRoute';
+import { planTitle } from './plans';
+
+const SHARE_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface SharedPlanRow {
+  id: string;
+  plan_id: string;
+  updated_at: string;
+}
+
+function toLink(row: SharedPlanRow): SharedPlanLink {
+  return {
+    id: row.id,
+    planId: row.plan_id,
+    url: `${window.location.origin}${sharePath(row.id)}`,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * The signed-in user's current link for a plan, if it has been shared.
+ */
+export async function getShareLink(planId: string): Promise<SharedPlanLink | null> {
+  const { data, error } = await supabase
+    .from('shared_plans')
+    .select('id, plan_id, updated_at')
+    .eq('plan_id', planId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data ? toLink(data as SharedPlanRow) : null;
+}
+
+/**
+ * Publish a snapshot of a finished plan. Sharing a plan again refreshes the snapshot and keeps its link.
+ * The user's own photo stays private: anyone with the link can read the snapshot.
+ */
+export async function sharePlan(plan: TravelPlan): Promise<SharedPlanLink> {
+  if (plan.type === 'error' || plan.status === 'loading' || plan.status === 'error') {
+    throw new Error('Only finished plans can be shared');
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Please sign in to share plans');
+
+  const snapshot: TravelPlan = { ...plan, photo: undefined };
+  const { data, error } = await supabase
+    .from('shared_plans')
+    .upsert({
+      user_id: user.id,
+      plan_id: plan.id,
+      title: planTitle(plan),
+      plan: snapshot,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'user_id,plan_id' })
+    .select('id, plan_id, updated_at')
+    .single();
+
+  if (error) throw new Error(error.message);
+  return toLink(data as SharedPlanRow);
+}
+
+export async function revokeShareLink(id: string): Promise<void> {
+  const { error } = await supabase.from('shared_plans').delete().eq('id', id);
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Load a shared plan for the public page; works without signing in. Returns null for unknown or revoked links.
+ */
+export async function loadSharedPlan(id: string): Promise<TravelPlan | null> {
+  if (!SHARE_ID.test(id)) return null;
+
+  const { data, error } = await supabase.rpc('get_shared_plan', { share_id: id });
+
+  if (error) throw new Error(error.message);
+  return (data as TravelPlan | null) ?? null;
+}
@@ -1,4 +1,5 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, FunctionsHttpError } from '@supabase/supabase-js';
+import { UsageLimitKind } from '../types';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -21,4 +22,101 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
     storage: window.localStorage,
     redirectTo: `${domain}/auth/callback`
   }
-});
\ No newline at end of file
+});
+
+/**
+ * Thrown when an edge function refuses a request because the user's daily allowance is used up.
+ */
+export class UsageLimitError extends Error {
+  constructor(message: string, public resetsAt: string, public limit: UsageLimitKind) {
+    super(message);
+    this.name = 'UsageLimitError';
+  }
+}
+
+const usageLimitListeners = new Set<(error: UsageLimitError) => void>();
+
+/**
+ * Hear about every used-up allowance, whichever request ran into it. Product searches carry on
+ * without products, so this is the only way their limit reaches the screen.
+ */
+export function subscribeUsageLimits(listener: (error: UsageLimitError) => void): () => void {
+  usageLimitListeners.add(listener);
+  return () => usageLimitListeners.delete(listener);
+}
+
+// The error body edge functions send, e.g. { error, code: 'usage_limit', limit: 'llmTokens', resetsAt }
+function toError(
+  details: { error?: string; code?: string; limit?: UsageLimitKind; resetsAt?: string } | null,
+  fallback: string
+): Error {
+  if (details?.code === 'usage_limit' && details.resetsAt) {
+    const limitError = new UsageLimitError(details.error || fallback, details.resetsAt, details.limit ?? 'llmTokens');
+    usageLimitListeners.forEach(listener => listener(limitError));
+    return limitError;
+  }
+  return new Error(details?.error || fallback);
+}
+
+/**
+ * Call an edge function and unwrap its JSON body, surfacing the function's own error message.
+ */
+export async function invokeFunction<T>(name: string, body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke<T>(name, { body });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const details = await error.context.json().catch(() => null);
+      throw toError(details, `Request to ${name} failed`);
+    }
+    throw new Error(error.message);
+  }
+
+  return data as T;
+}
+
+/**
+ * Call an edge function that answers with newline-delimited JSON and hand each line to `onMessage`
+ * as it arrives. A `{ error }` line from the function is rethrown as an Error.
+ */
+export async function streamFunction<T>(
+  name: string,
+  body: Record<string, unknown>,
+  onMessage: (message: T) => void
+): Promise<void> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const response = await fetch(`${supabaseUrl}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: supabaseAnonKey,
+      Authorization: `Bearer ${session?.access_token ?? supabaseAnonKey}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok || !response.body) {
+    const details = await response.json().catch(() => null);
+    throw toError(details, `Request to ${name} failed`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  const emit = (line: string) => {
+    if (!line.trim()) return;
+    const message = JSON.parse(line);
+    if (message?.error) throw toError(message, `Request to ${name} failed`);
+    onMessage(message as T);
+  };
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.forEach(emit);
+  }
+  emit(buffer);
+}
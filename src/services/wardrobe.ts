@@ -0,0 +1,145 @@
+/*
+ * Virtual wardrobe: garments the user owns, in the wardrobe_items table with photos in the private
+ * `wardrobe` storage bucket. The generate-outfits function reads the wardrobe for every generation.
+ */
+
+import { WardrobeCategory, WardrobeItem } from '../types';
+import { supabase } from './supabase';
+
+const BUCKET = 'wardrobe';
+const SIGNED_URL_TTL = 60 * 60; // seconds
+
+// Same limits as the bucket itself (see the wardrobe_photo_limits migration)
+const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+export const WARDROBE_PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+export const WARDROBE_CATEGORIES: { value: WardrobeCategory; label: string }[] = [
+  { value: 'top', label: 'Top' },
+  { value: 'bottom', label: 'Bottom' },
+  { value: 'dress', label: 'Dress' },
+  { value: 'outerwear', label: 'Outerwear' },
+  { value: 'shoes', label: 'Shoes' },
+  { value: 'accessory', label: 'Accessory' },
+];
+
+export interface NewWardrobeItem {
+  name: string;
+  type: WardrobeCategory;
+  color?: string;
+  tags: string[];
+  photo?: File;
+}
+
+interface WardrobeRow {
+  id: string;
+  name: string;
+  type: WardrobeCategory;
+  color: string | null;
+  tags: string[] | null;
+  image_path: string | null;
+  created_at: string;
+}
+
+function toItem(row: WardrobeRow, imageUrl?: string): WardrobeItem {
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.type,
+    color: row.color ?? undefined,
+    tags: row.tags ?? [],
+    imagePath: row.image_path ?? undefined,
+    imageUrl,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * List the signed-in user's wardrobe, newest first, with signed URLs for the photos.
+ */
+export async function listWardrobe(): Promise<WardrobeItem[]> {
+  const { data, error } = await supabase
+    .from('wardrobe_items')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw new Error(error.message);
+  const rows = data as WardrobeRow[];
+
+  const paths = rows.flatMap(row => (row.image_path ? [row.image_path] : []));
+  const urls = new Map<string, string>();
+  if (paths.length) {
+    const { data: signed, error: signError } = await supabase.storage.from(BUCKET).createSignedUrls(paths, SIGNED_URL_TTL);
+    if (signError) console.error('Could not sign wardrobe photos:', signError.message);
+    signed?.forEach(({ path, signedUrl }) => {
+      if (path && signedUrl) urls.set(path, signedUrl);
+    });
+  }
+
+  return rows.map(row => toItem(row, row.image_path ? urls.get(row.image_path) : undefined));
+}
+
+/**
+ * Why a photo cannot be uploaded to the wardrobe, or null when it can.
+ */
+export function wardrobePhotoProblem(photo: File): string | null {
+  if (!WARDROBE_PHOTO_TYPES.includes(photo.type)) return 'Photos must be JPEG, PNG, WebP or GIF';
+  if (photo.size > MAX_PHOTO_BYTES) return 'Photos must be under 5 MB';
+  return null;
+}
+
+/**
+ * Add a garment, uploading its photo first when there is one.
+ */
+export async function addWardrobeItem(item: NewWardrobeItem): Promise<WardrobeItem> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Please sign in to add to your wardrobe');
+
+  let imagePath: string | null = null;
+  if (item.photo) {
+    const problem = wardrobePhotoProblem(item.photo);
+    if (problem) throw new Error(problem);
+    const extension = item.photo.name.split('.').pop()?.toLowerCase() || 'jpg';
+    imagePath = `${user.id}/${crypto.randomUUID()}.${extension}`;
+    const { error: uploadError } = await supabase.storage
+      .from(BUCKET)
+      .upload(imagePath, item.photo, { contentType: item.photo.type });
+    if (uploadError) throw new Error(uploadError.message);
+  }
+
+  const { data, error } = await supabase
+    .from('wardrobe_items')
+    .insert({
+      user_id: user.id,
+      name: item.name.trim(),
+      type: item.type,
+      color: item.color?.trim() || null,
+      tags: item.tags,
+      image_path: imagePath,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (imagePath) await supabase.storage.from(BUCKET).remove([imagePath]);
+    throw new Error(error.message);
+  }
+
+  // Signed like the listed photos, so the item looks the same as it will after a reload
+  let imageUrl: string | undefined;
+  if (imagePath) {
+    const { data: signed, error: signError } = await supabase.storage.from(BUCKET).createSignedUrl(imagePath, SIGNED_URL_TTL);
+    if (signError) console.error('Could not sign wardrobe photo:', signError.message);
+    imageUrl = signed?.signedUrl;
+  }
+  return toItem(data as WardrobeRow, imageUrl);
+}
+
+export async function removeWardrobeItem(item: WardrobeItem): Promise<void> {
+  const { error } = await supabase.from('wardrobe_items').delete().eq('id', item.id);
+  if (error) throw new Error(error.message);
+
+  if (item.imagePath) {
+    const { error: storageError } = await supabase.storage.from(BUCKET).remove([item.imagePath]);
+    if (storageError) console.error('Could not delete wardrobe photo:', storageError.message);
+  }
+}
@@ -1,111 +1,394 @@
-import { format, isValid, parseISO, differenceInDays } from 'date-fns';
+import { addDays, addYears, format, isValid, parseISO, differenceInDays, subDays } from 'date-fns';
 import axios from 'axios';
+import { HourlyWeather, Place, UnitSystem, WeatherData } from '../types';
+import { placeLabel } from '../utils/places';
+import { cached } from './cache';
 
-export async function getWeatherForecast(location: string, date: string): Promise<any> {
-  try {
-    const parsedDate = new Date(date);
-    if (!isValid(parsedDate)) throw new Error(`Invalid date format: ${date}`);
-    const formattedDate = format(parsedDate, 'yyyy-MM-dd');
+// Open-Meteo serves at most this many forecast days; later dates fall back to climate normals
+const FORECAST_DAYS = 14;
+const MAX_TRIP_DAYS = 14;
+
+// Climate normals average the same calendar window (±CLIMATE_WINDOW_DAYS) over recent years
+const CLIMATE_YEARS = 10;
+const CLIMATE_WINDOW_DAYS = 3;
+const WET_DAY_MM = 1;
+
+// Geocoding matches fetched per destination, so towns that share a name can be told apart
+const GEOCODING_RESULTS = 10;
+
+const DAILY_VARIABLES = [
+  'temperature_2m_max',
+  'temperature_2m_min',
+  'apparent_temperature_max',
+  'apparent_temperature_min',
+  'weathercode',
+  'precipitation_probability_max',
+  'windspeed_10m_max',
+  'relative_humidity_2m_max',
+  'uv_index_max',
+  'sunrise',
+  'sunset'
+].join(',');
+
+const HOURLY_VARIABLES = ['temperature_2m', 'apparent_temperature', 'precipitation_probability'].join(',');
+
+const ARCHIVE_VARIABLES = [
+  'temperature_2m_max',
+  'temperature_2m_min',
+  'apparent_temperature_max',
+  'apparent_temperature_min',
+  'weathercode',
+  'precipitation_sum',
+  'windspeed_10m_max',
+  'relative_humidity_2m_max'
+].join(',');
+
+interface DailyForecast {
+  time: string[];
+  temperature_2m_max: number[];
+  temperature_2m_min: number[];
+  apparent_temperature_max: number[];
+  apparent_temperature_min: number[];
+  weathercode: number[];
+  precipitation_probability_max: number[];
+  windspeed_10m_max: number[];
+  relative_humidity_2m_max: number[];
+  uv_index_max: (number | null)[];
+  sunrise: string[]; // local time, e.g. "2025-06-01T05:48"
+  sunset: string[];
+}
+
+interface GeocodingResult {
+  name: string;
+  admin1?: string;
+  country: string;
+  country_code?: string;
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  population?: number;
+}
+
+interface HourlyForecast {
+  time: string[]; // local time, e.g. "2025-06-01T14:00"
+  temperature_2m: number[];
+  apparent_temperature: number[];
+  precipitation_probability: (number | null)[];
+}
+
+interface Forecast {
+  daily: DailyForecast;
+  hourly: HourlyForecast;
+}
+
+interface ArchiveDaily {
+  time: string[];
+  temperature_2m_max: (number | null)[];
+  temperature_2m_min: (number | null)[];
+  apparent_temperature_max: (number | null)[];
+  apparent_temperature_min: (number | null)[];
+  weathercode: (number | null)[];
+  precipitation_sum: (number | null)[];
+  windspeed_10m_max: (number | null)[];
+  relative_humidity_2m_max: (number | null)[];
+}
+
+// Open-Meteo parameters for each unit system
+const UNIT_PARAMS: Record<UnitSystem, { temperature_unit: string; windspeed_unit: string }> = {
+  imperial: { temperature_unit: 'fahrenheit', windspeed_unit: 'mph' },
+  metric: { temperature_unit: 'celsius', windspeed_unit: 'kmh' },
+};
+
+export interface TripForecast {
+  days: WeatherData[];
+  warning?: string;
+}
+
+function parseDate(date: string): string {
+  const parsedDate = isValid(parseISO(date)) ? parseISO(date) : new Date(date);
+  if (!isValid(parsedDate)) throw new Error(`Invalid date format: ${date}`);
+  return format(parsedDate, 'yyyy-MM-dd');
+}
 
-    // 1. Get latitude & longitude for the location using Open-Meteo geocoding API
+/**
+ * Places matching a destination name, in the geocoder's order (roughly by relevance and size).
+ */
+export function findPlaces(location: string): Promise<Place[]> {
+  return cached('geocoding', { location, count: GEOCODING_RESULTS }, async () => {
     const geoRes = await axios.get('https://geocoding-api.open-meteo.com/v1/search', {
-      params: { name: location, count: 1 }
+      params: { name: location, count: GEOCODING_RESULTS }
     });
 
-    if (!geoRes.data.results || geoRes.data.results.length === 0) {
+    const results: GeocodingResult[] | undefined = geoRes.data.results;
+    if (!results || results.length === 0) {
       throw new Error('Location not found. Please try a different city name.');
     }
 
-    const { latitude, longitude, timezone, name, country } = geoRes.data.results[0];
-
-    // 2. Fetch weather forecast with more detailed parameters
-    const weatherRes = await axios.get('https://api.open-meteo.com/v1/forecast', {
-      params: {
-        latitude,
-        longitude,
-        daily: [
-          'temperature_2m_max',
-          'temperature_2m_min',
-          'weathercode',
-          'precipitation_probability_max',
-          'windspeed_10m_max',
-          'relative_humidity_2m_max'
-        ].join(','),
-        timezone,
-        temperature_unit: 'fahrenheit',
-        windspeed_unit: 'mph',
-        forecast_days: 14
-      }
-    });
+    return results.map(({ name, admin1, country, country_code, latitude, longitude, timezone, population }) => ({
+      name,
+      admin1,
+      country,
+      countryCode: country_code,
+      latitude,
+      longitude,
+      timezone,
+      population
+    }));
+  });
+}
+
+function fetchForecast(place: Place, units: UnitSystem): Promise<Forecast> {
+  const key = {
+    latitude: place.latitude,
+    longitude: place.longitude,
+    timezone: place.timezone,
+    units,
+    daily: DAILY_VARIABLES,
+    hourly: HOURLY_VARIABLES,
+  };
+  return cached('forecast', key, () => loadForecast(place, units));
+}
 
-    const data = weatherRes.data;
-    if (!data.daily || data.daily.time.length === 0) {
-      throw new Error('No weather data available for the selected date');
+async function loadForecast(place: Place, units: UnitSystem): Promise<Forecast> {
+  const weatherRes = await axios.get('https://api.open-meteo.com/v1/forecast', {
+    params: {
+      latitude: place.latitude,
+      longitude: place.longitude,
+      daily: DAILY_VARIABLES,
+      hourly: HOURLY_VARIABLES,
+      timezone: place.timezone,
+      ...UNIT_PARAMS[units],
+      forecast_days: FORECAST_DAYS
     }
+  });
 
-    // Find the nearest available date if the requested date is beyond the forecast range
-    const dateIndex = data.daily.time.indexOf(formattedDate);
-    let actualDate = formattedDate;
-    let warning = undefined;
-
-    if (dateIndex === -1) {
-      // Find the nearest available date
-      const dates = data.daily.time.map((d: string) => parseISO(d));
-      const targetDate = parseISO(formattedDate);
-      
-      let nearestDate = dates[0];
-      let minDiff = Math.abs(differenceInDays(targetDate, dates[0]));
-      
-      for (const date of dates) {
-        const diff = Math.abs(differenceInDays(targetDate, date));
-        if (diff < minDiff) {
-          minDiff = diff;
-          nearestDate = date;
-        }
-      }
-      
-      actualDate = format(nearestDate, 'yyyy-MM-dd');
-      const newIndex = data.daily.time.indexOf(actualDate);
-      
-      warning = `Weather forecast for ${formattedDate} is not available. Showing forecast for nearest available date: ${format(nearestDate, 'MMMM d, yyyy')}`;
-      
-      return {
-        location: `${name}, ${country}`,
-        date: actualDate,
-        requestedDate: formattedDate,
-        temperature: data.daily.temperature_2m_max[newIndex],
-        description: weatherCodeToDescription(data.daily.weathercode[newIndex]),
-        icon: weatherCodeToIcon(data.daily.weathercode[newIndex]),
-        details: {
-          humidity: data.daily.relative_humidity_2m_max[newIndex],
-          windSpeed: Math.round(data.daily.windspeed_10m_max[newIndex]),
-          feelsLike: data.daily.temperature_2m_max[newIndex],
-          precipitation: data.daily.precipitation_probability_max[newIndex]
-        },
-        warning
+  const { daily, hourly } = weatherRes.data as Partial<Forecast>;
+  if (!daily || daily.time.length === 0) {
+    throw new Error('No weather data available for the selected date');
+  }
+  return { daily, hourly: hourly ?? { time: [], temperature_2m: [], apparent_temperature: [], precipitation_probability: [] } };
+}
+
+function hoursOf(hourly: HourlyForecast, date: string): HourlyWeather[] {
+  return hourly.time.flatMap((time, index) => time.startsWith(date)
+    ? [{
+      time,
+      temperature: hourly.temperature_2m[index],
+      feelsLike: hourly.apparent_temperature[index],
+      precipitation: hourly.precipitation_probability[index] ?? undefined
+    }]
+    : []);
+}
+
+function toWeatherData(place: Place, { daily, hourly }: Forecast, index: number, units: UnitSystem): WeatherData {
+  const date = daily.time[index];
+  return {
+    location: placeLabel(place),
+    date,
+    units,
+    temperature: daily.temperature_2m_max[index],
+    temperatureMin: daily.temperature_2m_min[index],
+    description: weatherCodeToDescription(daily.weathercode[index]),
+    icon: weatherCodeToIcon(daily.weathercode[index]),
+    details: {
+      humidity: daily.relative_humidity_2m_max[index],
+      windSpeed: Math.round(daily.windspeed_10m_max[index]),
+      feelsLike: daily.apparent_temperature_max[index],
+      feelsLikeMin: daily.apparent_temperature_min[index],
+      precipitation: daily.precipitation_probability_max[index],
+      uvIndex: daily.uv_index_max[index] ?? undefined
+    },
+    sunrise: daily.sunrise[index],
+    sunset: daily.sunset[index],
+    hourly: hoursOf(hourly, date)
+  };
+}
+
+async function fetchArchive(
+  place: Place,
+  range: { latitude: number; longitude: number; start_date: string; end_date: string },
+  units: UnitSystem
+): Promise<ArchiveDaily> {
+  const archiveRes = await axios.get('https://archive-api.open-meteo.com/v1/archive', {
+    params: {
+      ...range,
+      daily: ARCHIVE_VARIABLES,
+      timezone: place.timezone,
+      ...UNIT_PARAMS[units]
+    }
+  });
+  return archiveRes.data.daily;
+}
+
+/**
+ * Typical weather for each date, averaged over the same calendar window in the last CLIMATE_YEARS
+ * complete years of the Open-Meteo archive. Used for dates beyond the forecast window.
+ */
+async function fetchClimateNormals(place: Place, dates: string[], units: UnitSystem): Promise<Map<string, WeatherData>> {
+  const sorted = [...dates].sort();
+  const first = parseISO(sorted[0]);
+  const last = parseISO(sorted[sorted.length - 1]);
+  const latestYear = new Date().getFullYear() - 1;
+  const sampleYears = Array.from({ length: CLIMATE_YEARS }, (_, i) => latestYear - i);
+
+  // Each sample moves the requested dates to the same month and day of one past year
+  const samples = await Promise.all(
+    sampleYears.map(async year => {
+      const shift = year - first.getFullYear();
+      const params = {
+        latitude: place.latitude,
+        longitude: place.longitude,
+        start_date: format(subDays(addYears(first, shift), CLIMATE_WINDOW_DAYS), 'yyyy-MM-dd'),
+        end_date: format(addDays(addYears(last, shift), CLIMATE_WINDOW_DAYS), 'yyyy-MM-dd'),
       };
+      const key = { ...params, units, daily: ARCHIVE_VARIABLES };
+      const daily = await cached('climate', key, () => fetchArchive(place, params, units));
+      return { shift, daily };
+    })
+  );
+
+  const normals = new Map<string, WeatherData>();
+  for (const date of dates) {
+    const target = parseISO(date);
+    const highs: number[] = [];
+    const lows: number[] = [];
+    const feelsHigh: number[] = [];
+    const feelsLow: number[] = [];
+    const humidity: number[] = [];
+    const wind: number[] = [];
+    const codes: number[] = [];
+    let wetDays = 0;
+
+    for (const { shift, daily } of samples) {
+      for (let offset = -CLIMATE_WINDOW_DAYS; offset <= CLIMATE_WINDOW_DAYS; offset++) {
+        const index = daily.time.indexOf(format(addDays(addYears(target, shift), offset), 'yyyy-MM-dd'));
+        if (index === -1 || daily.temperature_2m_max[index] == null) continue;
+
+        highs.push(daily.temperature_2m_max[index]!);
+        lows.push(daily.temperature_2m_min[index] ?? daily.temperature_2m_max[index]!);
+        feelsHigh.push(daily.apparent_temperature_max[index] ?? daily.temperature_2m_max[index]!);
+        feelsLow.push(daily.apparent_temperature_min[index] ?? lows[lows.length - 1]);
+        humidity.push(daily.relative_humidity_2m_max[index] ?? 0);
+        wind.push(daily.windspeed_10m_max[index] ?? 0);
+        codes.push(daily.weathercode[index] ?? 0);
+        if ((daily.precipitation_sum[index] ?? 0) >= WET_DAY_MM) wetDays++;
+      }
     }
 
-    return {
-      location: `${name}, ${country}`,
-      date: actualDate,
-      requestedDate: formattedDate,
-      temperature: data.daily.temperature_2m_max[dateIndex],
-      description: weatherCodeToDescription(data.daily.weathercode[dateIndex]),
-      icon: weatherCodeToIcon(data.daily.weathercode[dateIndex]),
+    if (highs.length === 0) throw new Error('No historical climate data available for this location');
+
+    const typicalCode = mostCommon(codes);
+    normals.set(date, {
+      location: placeLabel(place),
+      date,
+      units,
+      temperature: average(highs),
+      temperatureMin: average(lows),
+      description: weatherCodeToDescription(typicalCode),
+      icon: weatherCodeToIcon(typicalCode),
       details: {
-        humidity: data.daily.relative_humidity_2m_max[dateIndex],
-        windSpeed: Math.round(data.daily.windspeed_10m_max[dateIndex]),
-        feelsLike: data.daily.temperature_2m_max[dateIndex],
-        precipitation: data.daily.precipitation_probability_max[dateIndex]
-      }
-    };
-  } catch (error: any) {
+        humidity: Math.round(average(humidity)),
+        windSpeed: Math.round(average(wind)),
+        feelsLike: average(feelsHigh),
+        feelsLikeMin: average(feelsLow),
+        precipitation: Math.round((wetDays / highs.length) * 100)
+      },
+      climatology: true
+    });
+  }
+
+  return normals;
+}
+
+/**
+ * Weather for each requested date: the forecast where it reaches, typical climate beyond it.
+ * The forecast starts today at the destination, which can be a day ahead of the user's own "today";
+ * dates a day behind it move up to it, and anything earlier has already passed.
+ */
+async function getDailyWeather(place: Place, requested: string[], units: UnitSystem): Promise<WeatherData[]> {
+  const forecast = await fetchForecast(place, units);
+  const { time } = forecast.daily;
+  const lag = requested[0] < time[0] ? differenceInDays(parseISO(time[0]), parseISO(requested[0])) : 0;
+  if (lag > 1) {
+    throw new Error(`${format(parseISO(requested[0]), 'MMMM d, yyyy')} has already passed in ${placeLabel(place)}. Please pick a date from today on.`);
+  }
+  const dates = lag ? requested.map(date => format(addDays(parseISO(date), lag), 'yyyy-MM-dd')) : requested;
+  const beyondForecast = dates.filter(date => !time.includes(date));
+  const normals = beyondForecast.length > 0 ? await fetchClimateNormals(place, beyondForecast, units) : new Map<string, WeatherData>();
+
+  return dates.map(date => {
+    const index = time.indexOf(date);
+    return index !== -1 ? toWeatherData(place, forecast, index, units) : normals.get(date)!;
+  });
+}
+
+export async function getWeatherForecast(place: Place, date: string, units: UnitSystem = 'imperial'): Promise<WeatherData> {
+  try {
+    const formattedDate = parseDate(date);
+    const [weather] = await getDailyWeather(place, [formattedDate], units);
+
+    const warning = weather.climatology
+      ? `Weather forecasts only reach ${FORECAST_DAYS} days ahead, so these outfits use typical ${format(parseISO(formattedDate), 'MMMM d')} weather in ${weather.location} from the last ${CLIMATE_YEARS} years.`
+      : undefined;
+
+    return { ...weather, requestedDate: formattedDate, warning };
+  } catch (error) {
     console.error('Weather service detailed error:', error);
-    throw new Error(`Weather service error: ${error.message}`);
+    throw new Error(`Weather service error: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
+/**
+ * Day-by-day weather for a trip of up to MAX_TRIP_DAYS days, falling back to typical climate
+ * for days beyond the forecast window. Longer trips are cut to their first MAX_TRIP_DAYS days,
+ * with a warning saying so.
+ */
+export async function getTripForecast(
+  place: Place,
+  startDate: string,
+  endDate: string,
+  units: UnitSystem = 'imperial'
+): Promise<TripForecast> {
+  const start = parseDate(startDate);
+  const end = parseDate(endDate);
+  const requestedLength = differenceInDays(parseISO(end), parseISO(start)) + 1;
+  const tripLength = Math.min(requestedLength, MAX_TRIP_DAYS);
+  if (tripLength <= 1) {
+    const weather = await getWeatherForecast(place, start, units);
+    return { days: [weather], warning: weather.warning };
+  }
+
+  try {
+    const requested = Array.from({ length: tripLength }, (_, i) => format(addDays(parseISO(start), i), 'yyyy-MM-dd'));
+    const days = await getDailyWeather(place, requested, units);
+
+    const climateDays = days.filter(day => day.climatology).length;
+    const warnings = [
+      requestedLength > MAX_TRIP_DAYS
+        ? `Trips are planned for up to ${MAX_TRIP_DAYS} days, so this plan covers ${format(parseISO(days[0].date), 'MMM d')} to ${format(parseISO(days[days.length - 1].date), 'MMM d')} of your ${requestedLength}-day trip.`
+        : undefined,
+      climateDays > 0
+        ? `${climateDays} of the ${days.length} trip days are beyond the ${FORECAST_DAYS}-day forecast window and use typical weather from the last ${CLIMATE_YEARS} years.`
+        : undefined,
+    ].filter(Boolean);
+
+    return { days, warning: warnings.length ? warnings.join(' ') : undefined };
+  } catch (error) {
+    console.error('Weather service detailed error:', error);
+    throw new Error(`Weather service error: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function average(values: number[]): number {
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+}
+
+function mostCommon(values: number[]): number {
+  const counts = new Map<number, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+}
+
 function weatherCodeToDescription(code: number): string {
   const map: Record<number, string> = {
     0: 'Clear sky',
@@ -0,0 +1,100 @@
+/*
+ * Wishlist: products and whole looks saved to the wishlist_items table as snapshots.
+ */
+
+import { OutfitItem, Product, WishlistItem } from '../types';
+import { supabase } from './supabase';
+
+interface WishlistRow {
+  id: string;
+  kind: WishlistItem['kind'];
+  item_key: string;
+  outfit_title: string;
+  store: string | null;
+  product: Product | null;
+  outfit: OutfitItem | null;
+  created_at: string;
+}
+
+function toItem(row: WishlistRow): WishlistItem {
+  return {
+    id: row.id,
+    kind: row.kind,
+    key: row.item_key,
+    outfitTitle: row.outfit_title,
+    store: row.store ?? undefined,
+    product: row.product ?? undefined,
+    outfit: row.outfit ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Identifies a product across plans: its URL, or store and title when there is no real link.
+ */
+export function productKey(product: Product): string {
+  return product.link && product.link !== '#'
+    ? `product:${product.link}`
+    : `product:${product.store}|${product.title}`.toLowerCase();
+}
+
+export function outfitKey(outfit: OutfitItem): string {
+  return `outfit:${outfit.id}`;
+}
+
+export async function listWishlist(): Promise<WishlistItem[]> {
+  const { data, error } = await supabase
+    .from('wishlist_items')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw new Error(error.message);
+  return (data as WishlistRow[]).map(toItem);
+}
+
+async function insertItem(row: Omit<WishlistRow, 'id' | 'created_at'>): Promise<WishlistItem> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Please sign in to save items');
+
+  const { data, error } = await supabase
+    .from('wishlist_items')
+    .upsert({ ...row, user_id: user.id }, { onConflict: 'user_id,item_key' })
+    .select()
+    .single();
+
+  if (error) throw new Error(error.message);
+  return toItem(data as WishlistRow);
+}
+
+/**
+ * Save a product together with the title of the look it was found for.
+ */
+export async function saveProduct(product: Product, outfit: OutfitItem): Promise<WishlistItem> {
+  return insertItem({
+    kind: 'product',
+    item_key: productKey(product),
+    outfit_title: outfit.type,
+    store: product.store,
+    product,
+    outfit: null,
+  });
+}
+
+/**
+ * Save a whole look, including the products found for it.
+ */
+export async function saveOutfit(outfit: OutfitItem): Promise<WishlistItem> {
+  return insertItem({
+    kind: 'outfit',
+    item_key: outfitKey(outfit),
+    outfit_title: outfit.type,
+    store: null,
+    product: null,
+    outfit,
+  });
+}
+
+export async function removeWishlistItem(id: string): Promise<void> {
+  const { error } = await supabase.from('wishlist_items').delete().eq('id', id);
+  if (error) throw new Error(error.message);
+}
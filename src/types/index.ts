@@ -1,30 +1,136 @@
+export type UnitSystem = 'metric' | 'imperial';
+
+/**
+ * A geocoded destination. Plans keep the one the user meant, so its weather is always fetched for the
+ * same coordinates.
+ */
+export interface Place {
+  name: string;
+  admin1?: string; // state or region, e.g. "Texas"
+  country: string;
+  countryCode?: string; // ISO 3166-1 alpha-2, e.g. "US"
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  population?: number;
+}
+
+/**
+ * One hour of a forecast day, in the day's units.
+ */
+export interface HourlyWeather {
+  time: string; // local time at the destination, e.g. "2025-06-01T14:00"
+  temperature: number;
+  feelsLike: number;
+  precipitation?: number; // % chance
+}
+
 export interface WeatherData {
   location: string;
   date: string;
-  temperature: number;
+  units?: UnitSystem; // of temperatures (°C/°F) and wind speed (km/h/mph); imperial when absent
+  temperature: number; // daytime high
+  temperatureMin?: number; // overnight low
   description: string;
   icon: string;
   details: {
     humidity: number;
     windSpeed: number;
-    feelsLike: number;
+    feelsLike: number; // apparent high
+    feelsLikeMin?: number; // apparent low
     precipitation?: number;
+    uvIndex?: number; // daily maximum
   };
+  sunrise?: string; // local time at the destination, e.g. "2025-06-01T05:48"
+  sunset?: string;
+  hourly?: HourlyWeather[]; // forecast days only
+  requestedDate?: string;
+  warning?: string;
+  climatology?: boolean; // typical conditions from historical data, not a forecast
 }
 
-export interface OutfitItem {
+/**
+ * One outfit exactly as the stylist model produces it; validated by the generate-outfits function.
+ */
+export interface GeneratedOutfit {
+  type: string; // creative outfit title
+  description: string; // Top: ..., Bottom: ..., Shoes: ..., Accessories: ...
+  searchQuery: string; // covers only the pieces the user does not own
+  imagePrompt: string;
+  pieces?: OutfitPiece[]; // missing on plans generated before the wardrobe existed
+}
+
+/**
+ * One piece of a look. Owned pieces come from the user's wardrobe and are never shopped for.
+ */
+export interface OutfitPiece {
+  name: string;
+  owned: boolean;
+  wardrobeItemId?: string;
+}
+
+export interface OutfitItem extends GeneratedOutfit {
   id: string;
-  type: string;
-  description: string;
-  searchQuery: string;
   products?: Product[];
 }
 
+export interface Price {
+  amount: number; // the price, or the low end of a range
+  maxAmount?: number; // high end of a range such as "$40 - $60"
+  currency: string; // ISO 4217 code, e.g. "USD"
+}
+
+/**
+ * Price limits for a single product, in one currency; extracted from requests like "under $150".
+ */
+export interface Budget {
+  min?: number;
+  max?: number;
+  currency: string;
+}
+
+export type GenderPresentation = 'masculine' | 'feminine' | 'androgynous';
+
+export type SizeRange = 'petite' | 'regular' | 'tall' | 'plus';
+
+export type Fit = 'slim' | 'regular' | 'relaxed' | 'oversized';
+
+export type Modesty = 'none' | 'moderate' | 'high';
+
+/**
+ * Who the stylist is dressing; edited once from the user menu and kept in the profiles table.
+ */
+export interface StyleProfile {
+  genderPresentation?: GenderPresentation;
+  sizes: { tops?: string; bottoms?: string; shoes?: string; dresses?: string };
+  sizeRange?: SizeRange;
+  fits: Fit[];
+  favoriteColors: string[];
+  dislikedItems: string[];
+  modesty?: Modesty;
+  notes?: string;
+}
+
+export interface CustomStore {
+  domain: string; // e.g. "everlane.com"
+  name: string;
+}
+
+/**
+ * Retailer choices from the store settings screen; applied by the search-products edge function.
+ */
+export interface StorePreferences {
+  preferred: string[]; // domains searched and listed first
+  blocked: string[]; // domains never searched
+  custom: CustomStore[];
+  perStoreLimit: number; // products per store, 1 to 6
+}
+
 export interface Product {
   title: string;
   link: string;
   image: string;
-  price: string;
+  price: Price | null; // null when the store does not show one
   store: string;
   description?: string; 
 }
@@ -36,15 +142,181 @@ export interface ChatMessage {
   timestamp: Date;
 }
 
+export type IntentType =
+  | 'travel'
+  | 'event'
+  | 'lyrics'
+  | 'movie'
+  | 'anime'
+  | 'sports'
+  | 'culture'
+  | 'activity' // e.g. hiking, gym, mountain trek
+  | 'item'; // arbitrary garment or style like "floral dress"
+
+export type Audience = 'men' | 'women';
+
+export type Occasion = 'day' | 'night' | 'beach' | 'birthday' | 'date' | 'business';
+
+/**
+ * Badge selections from OutfitSuggestions; they carry over to every later request.
+ */
+export interface OutfitFilters {
+  audience?: Audience;
+  occasions: Occasion[];
+}
+
+/**
+ * Context handed to the stylist; a plan keeps it so individual outfits can be regenerated later.
+ */
+export interface SuggestionParams {
+  weather?: {
+    date: Date | string;
+    temperature: number; // in `units`
+    description: string; // e.g. "Clear", "Rain"
+    location: string;
+    temperatureMin?: number; // in `units`
+    units?: UnitSystem; // imperial when absent
+    details?: WeatherData['details']; // feels-like range and UV index feed the stylist
+    sunrise?: string;
+    sunset?: string;
+    hourly?: HourlyWeather[];
+    climatology?: boolean;
+  };
+  event?: string;
+  lyrics?: string;
+  movie?: string;
+  anime?: string;
+  sports?: string;
+  culture?: string;
+  activity?: string;
+  item?: string;
+  audience?: Audience;
+  occasions?: Occasion[];
+  capsule?: string[]; // trip capsule wardrobe the looks should be built from
+  refinement?: string; // latest follow-up change the user asked for, e.g. "more casual"
+  budget?: Budget;
+}
+
+/**
+ * The plan currently on screen, reduced to what the stylist needs to build on it.
+ */
+export interface PlanContext {
+  type: IntentType;
+  destination?: string;
+  date?: string;
+  endDate?: string;
+  event?: string;
+  subject?: string;
+  refinement?: string;
+  outfits: Pick<GeneratedOutfit, 'type' | 'description'>[];
+}
+
+/**
+ * Recent chat turns and the current plan, sent with each message so follow-ups can build on them.
+ */
+export interface ConversationContext {
+  history: Pick<ChatMessage, 'type' | 'content'>[];
+  plan?: PlanContext;
+}
+
+export interface TripDay {
+  date: string;
+  weather: WeatherData;
+  outfits: OutfitItem[];
+}
+
 export interface TravelPlan {
   id: string;
   destination?: string;
+  place?: Place; // where the destination was resolved to
   date?: string;
+  endDate?: string;
   event?: string;
+  subject?: string; // movie title, lyrics, activity, etc. for non-travel plans
   weather?: WeatherData;
-  outfits?: OutfitItem[];
+  outfits?: OutfitItem[]; // single-day plans, or the first day of a trip
+  days?: TripDay[]; // multi-day trips only
+  capsule?: string[];
+  params?: SuggestionParams;
   status: 'idle' | 'loading' | 'success' | 'error' | 'warning';
   error?: string;
   warning?: string;
-  type: 'travel' | 'event' | 'error';
-}
\ No newline at end of file
+  photo?: string; // data URL of the photo the looks were styled around
+  type: IntentType | 'error';
+}
+/**
+ * Row of the saved_plans history list; the full plan is only loaded when it is reopened.
+ */
+export interface SavedPlanSummary {
+  id: string;
+  planId: string;
+  type: IntentType;
+  title: string;
+  date?: string; // first day of a travel plan
+  createdAt: string;
+}
+
+/**
+ * A saved product or whole look. Both keep a snapshot, so they outlive the plan they came from.
+ */
+export interface WishlistItem {
+  id: string;
+  kind: 'product' | 'outfit';
+  key: string;
+  outfitTitle: string;
+  store?: string;
+  product?: Product;
+  outfit?: OutfitItem;
+  createdAt: string;
+}
+
+/**
+ * A public, read-only link to a snapshot of a plan.
+ */
+export interface SharedPlanLink {
+  id: string;
+  planId: string;
+  url: string;
+  updatedAt: string;
+}
+
+export type PackingCategory = 'tops' | 'bottoms' | 'dresses' | 'outerwear' | 'shoes' | 'accessories' | 'weather' | 'other';
+
+/**
+ * One line of a plan's packing list. `count` is the number of looks that use the piece, or for
+ * weather gear the number of days that call for it.
+ */
+export interface PackingItem {
+  key: string;
+  name: string;
+  category: PackingCategory;
+  count: number;
+  reason?: string; // why weather gear was added, e.g. "rain likely"
+}
+
+export type WardrobeCategory = 'top' | 'bottom' | 'dress' | 'outerwear' | 'shoes' | 'accessory';
+
+/**
+ * A garment the user owns (wardrobe_items table). The stylist builds looks around these first.
+ */
+export interface WardrobeItem {
+  id: string;
+  name: string;
+  type: WardrobeCategory;
+  color?: string;
+  tags: string[];
+  imagePath?: string; // object path in the wardrobe storage bucket
+  imageUrl?: string; // short-lived signed URL for display
+  createdAt: string;
+}
+
+export type UsageLimitKind = 'llmTokens' | 'searchCalls' | 'imageCalls';
+
+/**
+ * A daily allowance (LLM tokens, product searches or images) the user has used up.
+ */
+export interface UsageLimit {
+  message: string;
+  limit: UsageLimitKind; // only llmTokens stops the chat; the others just leave looks without products
+  resetsAt: string; // ISO timestamp of the next UTC midnight
+}
@@ -0,0 +1,38 @@
+import { photoProblem } from '../../supabase/functions/_shared/photo.ts';
+
+/**
+ * Read an image file into a JPEG data URL no larger than `maxSize` pixels on its longest side, so
+ * photos can be sent to the stylist and kept with a plan without carrying full camera resolution.
+ * Rejects with the server's own message when the result would still be refused there.
+ */
+export function resizeImage(file: File, maxSize = 768, quality = 0.8): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Could not process the photo'));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      const dataUrl = canvas.toDataURL('image/jpeg', quality);
+      const problem = photoProblem(dataUrl);
+      if (problem) reject(new Error(problem));
+      else resolve(dataUrl);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('That file is not an image we can read'));
+    };
+
+    image.src = url;
+  });
+}
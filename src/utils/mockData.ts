@@ -162,7 +162,7 @@ function generateMockProducts(searchQuery: string): Product[] {
       title: `${searchQuery.charAt(0).toUpperCase() + searchQuery.slice(1)} - Style ${i + 1}`,
       link: 'https://example.com/product',
       image: `https://source.unsplash.com/100x100/?${encodeURIComponent(searchQuery)}`,
-      price: `$${Math.floor(Math.random() * 70) + 20}.99`,
+      price: { amount: Math.floor(Math.random() * 70) + 20.99, currency: 'USD' },
       store
     });
   }
@@ -0,0 +1,24 @@
+import { OutfitItem, TravelPlan, WeatherData } from '../types';
+
+/**
+ * Split an outfit description such as "Top: linen shirt, Bottom: chinos" into its pieces.
+ */
+export function parseOutfitItems(description: string): string[] {
+  return description.split(/[.,]/).map(item => item.trim()).filter(Boolean);
+}
+
+export interface PlanSection {
+  date?: string;
+  weather?: WeatherData;
+  outfits: OutfitItem[];
+}
+
+/**
+ * One section per trip day, or a single section for one-day and non-travel plans.
+ */
+export function planSections(plan: TravelPlan): PlanSection[] {
+  if (plan.days && plan.days.length > 0) {
+    return plan.days.map(day => ({ date: day.date, weather: day.weather, outfits: day.outfits }));
+  }
+  return [{ date: plan.date, weather: plan.weather, outfits: plan.outfits ?? [] }];
+}
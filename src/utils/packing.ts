@@ -0,0 +1,110 @@
+import { PackingCategory, PackingItem, TravelPlan, WeatherData } from '../types';
+import { parseOutfitItems, planSections } from './outfit';
+import { convertSpeed, convertTemperature } from './units';
+
+export const PACKING_CATEGORIES: { value: PackingCategory; label: string }[] = [
+  { value: 'tops', label: 'Tops' },
+  { value: 'bottoms', label: 'Bottoms' },
+  { value: 'dresses', label: 'Dresses & one-pieces' },
+  { value: 'outerwear', label: 'Outerwear' },
+  { value: 'shoes', label: 'Shoes' },
+  { value: 'accessories', label: 'Accessories' },
+  { value: 'weather', label: 'Weather gear' },
+  { value: 'other', label: 'Other' },
+];
+
+// Matched against the "Top:", "Shoes:" labels the stylist writes, then against the piece itself
+const CATEGORY_KEYWORDS: [PackingCategory, RegExp][] = [
+  ['dresses', /\b(dress|dresses|jumpsuit|romper|one-piece|gown|saree|sari|kaftan)\b/],
+  ['outerwear', /\b(outerwear|layer|jacket|coat|blazer|parka|trench|cardigan|windbreaker|raincoat)\b/],
+  ['shoes', /\b(shoes?|footwear|sneakers?|boots?|sandals?|loafers?|heels|flats|trainers|espadrilles|mules|oxfords)\b/],
+  ['bottoms', /\b(bottoms?|pants|trousers|jeans|chinos|shorts|skirt|leggings|joggers|culottes)\b/],
+  ['tops', /\b(tops?|shirt|t-shirt|tee|blouse|sweater|jumper|knit|polo|tank|camisole|hoodie|turtleneck|bodysuit)\b/],
+  ['accessories', /\b(accessor(y|ies)|bag|hat|cap|belt|scarf|sunglasses|watch|jewelry|jewellery|necklace|earrings|bracelet|tote|clutch|backpack)\b/],
+];
+
+// Weather thresholds in °F, mph and % chance of rain, whatever units the forecast is in
+const RAIN_CHANCE = 50;
+const HOT = 80;
+const COLD = 45;
+const WINDY = 20;
+const HIGH_UV = 6;
+const EVENING_SWING = 15; // °F between the high and the low
+
+const fahrenheit = (value: number, weather: WeatherData) => convertTemperature(value, weather.units, 'imperial');
+
+const WEATHER_GEAR: { name: string; reason: string; needed: (weather: WeatherData) => boolean }[] = [
+  { name: 'Umbrella', reason: 'rain likely', needed: w => (w.details.precipitation ?? 0) >= RAIN_CHANCE },
+  { name: 'Waterproof layer', reason: 'rain likely', needed: w => (w.details.precipitation ?? 0) >= RAIN_CHANCE },
+  { name: 'Sunscreen', reason: 'hot or high-UV days', needed: w => fahrenheit(w.temperature, w) >= HOT || (w.details.uvIndex ?? 0) >= HIGH_UV },
+  { name: 'Sunglasses', reason: 'hot or high-UV days', needed: w => fahrenheit(w.temperature, w) >= HOT || (w.details.uvIndex ?? 0) >= HIGH_UV },
+  { name: 'Sun hat', reason: 'high UV', needed: w => (w.details.uvIndex ?? 0) >= HIGH_UV },
+  { name: 'Gloves and a warm hat', reason: 'cold days', needed: w => fahrenheit(w.climatology ? w.temperatureMin ?? w.details.feelsLike : w.details.feelsLike, w) <= COLD },
+  {
+    name: 'Warm layer for evenings',
+    reason: 'cool evenings',
+    needed: w => w.temperatureMin !== undefined && fahrenheit(w.temperature, w) - fahrenheit(w.temperatureMin, w) >= EVENING_SWING,
+  },
+  { name: 'Windproof layer', reason: 'windy days', needed: w => convertSpeed(w.details.windSpeed, w.units, 'imperial') >= WINDY },
+];
+
+function categorize(text: string): PackingCategory | undefined {
+  const lower = text.toLowerCase();
+  return CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(lower))?.[0];
+}
+
+/**
+ * "Top: white linen shirt" -> shirt under tops. Pieces without a label inherit the previous
+ * piece's category, e.g. "Accessories: straw hat, tote bag".
+ */
+function parsePiece(piece: string, previous: PackingCategory): { name: string; category: PackingCategory } {
+  const labelled = piece.match(/^([^:]{1,30}):\s*(.+)$/);
+  const name = (labelled ? labelled[2] : piece).trim();
+  const category = (labelled && categorize(labelled[1])) || categorize(name) || (labelled ? 'other' : previous);
+  return { name: name.charAt(0).toUpperCase() + name.slice(1), category };
+}
+
+function itemKey(category: PackingCategory, name: string): string {
+  return `${category}:${name.toLowerCase().replace(/^(a|an|the)\s+/, '').replace(/\s+/g, ' ')}`;
+}
+
+/**
+ * Deduplicated packing list for a plan: every outfit piece with the number of looks that use it,
+ * plus weather gear from each day's forecast with the number of days that call for it.
+ */
+export function buildPackingList(plan: TravelPlan): PackingItem[] {
+  const items = new Map<string, PackingItem>();
+  const add = (key: string, item: Omit<PackingItem, 'key' | 'count'>) => {
+    const existing = items.get(key);
+    if (existing) existing.count += 1;
+    else items.set(key, { ...item, key, count: 1 });
+  };
+
+  const sections = planSections(plan);
+  for (const { outfits } of sections) {
+    for (const outfit of outfits) {
+      const seen = new Set<string>(); // a piece named twice in one look still counts once
+      let category: PackingCategory = 'other';
+      for (const piece of parseOutfitItems(outfit.description)) {
+        const parsed = parsePiece(piece, category);
+        category = parsed.category;
+        const key = itemKey(parsed.category, parsed.name);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        add(key, parsed);
+      }
+    }
+  }
+
+  // Gear the looks already include, such as sunglasses, is not listed twice
+  const packed = new Set([...items.values()].map(item => item.name.toLowerCase()));
+  for (const { weather } of sections) {
+    if (!weather) continue;
+    for (const gear of WEATHER_GEAR) {
+      if (gear.needed(weather) && !packed.has(gear.name.toLowerCase())) add(itemKey('weather', gear.name), { name: gear.name, category: 'weather', reason: gear.reason });
+    }
+  }
+
+  const order = PACKING_CATEGORIES.map(({ value }) => value);
+  return [...items.values()].sort((a, b) => order.indexOf(a.category) - order.indexOf(b.category) || b.count - a.count);
+}
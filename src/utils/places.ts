@@ -0,0 +1,89 @@
+import { Place } from '../types';
+
+// The runner-up must have at least this share of the top match's population to make a name ambiguous,
+// e.g. Portland, Oregon and Portland, Maine but not Paris, France and Paris, Texas
+const AMBIGUITY_RATIO = 0.1;
+
+export const MAX_PLACE_CHOICES = 5;
+
+const US_STATES: Record<string, string> = {
+  Alabama: 'AL', Alaska: 'AK', Arizona: 'AZ', Arkansas: 'AR', California: 'CA', Colorado: 'CO',
+  Connecticut: 'CT', Delaware: 'DE', 'District of Columbia': 'DC', Florida: 'FL', Georgia: 'GA',
+  Hawaii: 'HI', Idaho: 'ID', Illinois: 'IL', Indiana: 'IN', Iowa: 'IA', Kansas: 'KS', Kentucky: 'KY',
+  Louisiana: 'LA', Maine: 'ME', Maryland: 'MD', Massachusetts: 'MA', Michigan: 'MI', Minnesota: 'MN',
+  Mississippi: 'MS', Missouri: 'MO', Montana: 'MT', Nebraska: 'NE', Nevada: 'NV', 'New Hampshire': 'NH',
+  'New Jersey': 'NJ', 'New Mexico': 'NM', 'New York': 'NY', 'North Carolina': 'NC', 'North Dakota': 'ND',
+  Ohio: 'OH', Oklahoma: 'OK', Oregon: 'OR', Pennsylvania: 'PA', 'Rhode Island': 'RI', 'South Carolina': 'SC',
+  'South Dakota': 'SD', Tennessee: 'TN', Texas: 'TX', Utah: 'UT', Vermont: 'VT', Virginia: 'VA',
+  Washington: 'WA', 'West Virginia': 'WV', Wisconsin: 'WI', Wyoming: 'WY',
+};
+
+// Other ways people name a country in a message, by ISO code
+const COUNTRY_ALIASES: Record<string, string[]> = {
+  US: ['USA', 'U.S.', 'United States', 'America'],
+  GB: ['UK', 'U.K.', 'Britain', 'England', 'Scotland', 'Wales', 'Northern Ireland'],
+  AE: ['UAE'],
+};
+
+/**
+ * How people write the place: "Paris, France", or "Paris, TX, US" for US cities.
+ */
+export function placeLabel(place: Place): string {
+  if (place.countryCode === 'US') {
+    const state = place.admin1 && (US_STATES[place.admin1] ?? place.admin1);
+    return [place.name, state, 'US'].filter(Boolean).join(', ');
+  }
+  return `${place.name}, ${place.country}`;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function mentions(text: string, term: string | undefined, caseSensitive = false): boolean {
+  if (!term) return false;
+  return new RegExp(`(^|[^\\p{L}])${escapeRegExp(term)}($|[^\\p{L}])`, caseSensitive ? 'u' : 'iu').test(text);
+}
+
+/**
+ * Country, state or region names in the message that match the place. Codes such as "TX" or "UK" only
+ * count in capitals, so "us" or "or" in a sentence are not read as countries or states.
+ */
+function hintMatches(place: Place, hints: string): number {
+  const code = place.countryCode ?? '';
+  const stateCode = place.countryCode === 'US' && place.admin1 ? US_STATES[place.admin1] : undefined;
+  const countryNamed = mentions(hints, place.country)
+    || mentions(hints, code, true)
+    || (COUNTRY_ALIASES[code] ?? []).some(alias => mentions(hints, alias, alias === alias.toUpperCase()));
+  const regionNamed = mentions(hints, place.admin1) || mentions(hints, stateCode, true);
+  return Number(countryNamed) + Number(regionNamed);
+}
+
+/**
+ * Order geocoding matches by how well the message's country or region hints fit them, then by population.
+ * Matches with the same label (a city and its district, say) are collapsed to the first one.
+ */
+export function rankPlaces(places: Place[], hints: string): Place[] {
+  const seen = new Set<string>();
+  const unique = places.filter(place => {
+    const label = placeLabel(place);
+    if (seen.has(label)) return false;
+    seen.add(label);
+    return true;
+  });
+
+  return unique
+    .map(place => ({ place, hints: hintMatches(place, hints) }))
+    .sort((a, b) => b.hints - a.hints || (b.place.population ?? 0) - (a.place.population ?? 0))
+    .map(({ place }) => place);
+}
+
+/**
+ * Whether the user should pick between the top matches: no hint singles one out and the runner-up is
+ * not much smaller than the leader.
+ */
+export function isAmbiguous(ranked: Place[], hints: string): boolean {
+  const [first, second] = ranked;
+  if (!first || !second) return false;
+  if (hintMatches(first, hints) > hintMatches(second, hints)) return false;
+  if (!first.population) return true;
+  return (second.population ?? 0) >= first.population * AMBIGUITY_RATIO;
+}
@@ -0,0 +1,72 @@
+import { OutfitItem, Price, Product } from '../types';
+
+export type PriceSort = 'relevance' | 'price-asc' | 'price-desc';
+
+export interface PriceRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Format a price for display, e.g. "$45.00" or "€40.00 – €60.00".
+ */
+export function formatPrice(price: Price | null | undefined): string {
+  if (!price) return 'Price N/A';
+
+  const format = (amount: number) => {
+    try {
+      return new Intl.NumberFormat(undefined, { style: 'currency', currency: price.currency }).format(amount);
+    } catch {
+      return `${amount.toFixed(2)} ${price.currency}`;
+    }
+  };
+
+  return price.maxAmount ? `${format(price.amount)} – ${format(price.maxAmount)}` : format(price.amount);
+}
+
+/**
+ * Sort and filter a product grid. Products without a price stay in relevance order at the end,
+ * and are hidden as soon as a min or max is set.
+ */
+export function arrangeProducts(products: Product[], sort: PriceSort, range: PriceRange): Product[] {
+  const filtered = range.min === undefined && range.max === undefined
+    ? products
+    : products.filter(({ price }) =>
+      price
+      && (range.min === undefined || (price.maxAmount ?? price.amount) >= range.min)
+      && (range.max === undefined || price.amount <= range.max)
+    );
+
+  if (sort === 'relevance') return filtered;
+
+  const direction = sort === 'price-asc' ? 1 : -1;
+  return [...filtered].sort((a, b) => {
+    if (!a.price || !b.price) return (a.price ? 0 : 1) - (b.price ? 0 : 1);
+    return (a.price.amount - b.price.amount) * direction;
+  });
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Estimated cost of buying the whole look: the typical price of the products found for it, times the
+ * number of pieces in its description. Uses the most common currency and ignores the others.
+ */
+export function estimateOutfitTotal(outfit: OutfitItem, pieceCount: number): Price | null {
+  const prices = (outfit.products ?? []).flatMap(product => (product.price ? [product.price] : []));
+  if (!prices.length || pieceCount === 0) return null;
+
+  const counts = new Map<string, number>();
+  prices.forEach(price => counts.set(price.currency, (counts.get(price.currency) ?? 0) + 1));
+  const [currency] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+
+  const amounts = prices
+    .filter(price => price.currency === currency)
+    .map(price => (price.maxAmount ? (price.amount + price.maxAmount) / 2 : price.amount));
+
+  return { amount: Math.round(median(amounts) * pieceCount), currency };
+}
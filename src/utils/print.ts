@@ -0,0 +1,17 @@
+const PRINTING_CLASS = 'printing-lookbook';
+
+/**
+ * Open the browser's print dialog with the page swapped for the mounted Lookbook, so it can be
+ * printed or saved as a PDF. Printing the page any other way is unaffected.
+ */
+export function printLookbook() {
+  const { body } = document;
+  const cleanUp = () => {
+    body.classList.remove(PRINTING_CLASS);
+    window.removeEventListener('afterprint', cleanUp);
+  };
+
+  body.classList.add(PRINTING_CLASS);
+  window.addEventListener('afterprint', cleanUp);
+  window.print();
+}
@@ -0,0 +1,80 @@
+/*
+ * Metric or imperial units for weather. Forecasts are fetched in the user's units and keep the units
+ * they were fetched in, so every display converts from the data's units to the current preference.
+ * The preference is detected from the browser locale unless the user picks one, which is kept in
+ * localStorage.
+ */
+
+import { UnitSystem } from '../types';
+
+const STORAGE_KEY = 'unit-system';
+
+// Regions that still report weather in °F and mph
+const IMPERIAL_REGIONS = new Set(['US', 'LR', 'MM']);
+
+export function detectUnitSystem(locale = navigator.language): UnitSystem {
+  let region: string | undefined;
+  try {
+    region = new Intl.Locale(locale).maximize().region;
+  } catch {
+    region = locale.split(/[-_]/)[1];
+  }
+  return region && IMPERIAL_REGIONS.has(region.toUpperCase()) ? 'imperial' : 'metric';
+}
+
+function readOverride(): UnitSystem | null {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored === 'metric' || stored === 'imperial' ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+const listeners = new Set<() => void>();
+
+/** The units chosen by the user, or the locale's units when they have not chosen. */
+export function getUnitSystem(): UnitSystem {
+  return readOverride() ?? detectUnitSystem();
+}
+
+export function isUnitSystemOverridden(): boolean {
+  return readOverride() !== null;
+}
+
+/** Save the user's choice; null goes back to following the locale. */
+export function setUnitSystem(units: UnitSystem | null): void {
+  try {
+    if (units) window.localStorage.setItem(STORAGE_KEY, units);
+    else window.localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.warn('Could not save unit preference:', error);
+  }
+  listeners.forEach(listener => listener());
+}
+
+export function subscribeUnitSystem(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// Weather saved before units were tracked was always imperial
+export function convertTemperature(value: number, from: UnitSystem | undefined, to: UnitSystem): number {
+  const source = from ?? 'imperial';
+  if (source === to) return value;
+  return to === 'metric' ? (value - 32) * 5 / 9 : value * 9 / 5 + 32;
+}
+
+export function convertSpeed(value: number, from: UnitSystem | undefined, to: UnitSystem): number {
+  const source = from ?? 'imperial';
+  if (source === to) return value;
+  return to === 'metric' ? value * 1.609344 : value / 1.609344;
+}
+
+export function formatTemperature(value: number, from: UnitSystem | undefined, to: UnitSystem): string {
+  return `${Math.round(convertTemperature(value, from, to))}°`;
+}
+
+export function formatWindSpeed(value: number, from: UnitSystem | undefined, to: UnitSystem): string {
+  return `${Math.round(convertSpeed(value, from, to))} ${to === 'metric' ? 'km/h' : 'mph'}`;
+}
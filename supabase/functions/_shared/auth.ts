@@ -0,0 +1,30 @@
+/*
+ * Session check for edge functions: the caller must send a signed-in user's access token.
+ */
+
+import { createClient, SupabaseClient, User } from 'jsr:@supabase/supabase-js@2';
+import { env } from './env.ts';
+import { HttpError } from './http.ts';
+
+/**
+ * Verify the caller and return a client that acts as them, so row-level security applies to its queries.
+ */
+export async function requireUserClient(req: Request): Promise<{ user: User; supabase: SupabaseClient }> {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization?.startsWith('Bearer ')) throw new HttpError(401, 'Please sign in to continue.');
+
+  const supabase = createClient(env.supabaseUrl(), env.supabaseAnonKey(), {
+    global: { headers: { Authorization: authorization } },
+  });
+
+  // getUser validates the JWT with the auth server; the anon key alone carries no user and is rejected
+  const { data: { user }, error } = await supabase.auth.getUser(authorization.slice('Bearer '.length));
+  if (error || !user) throw new HttpError(401, 'Your session has expired. Please sign in again.');
+
+  return { user, supabase };
+}
+
+export async function requireUser(req: Request): Promise<User> {
+  const { user } = await requireUserClient(req);
+  return user;
+}
@@ -0,0 +1,32 @@
+/*
+ * Upstream endpoints and credentials. Base URLs can be pointed at local stubs
+ * (see supabase/stubs/upstreams.ts) so the functions run without real API keys.
+ */
+
+function optional(name: string, fallback: string): string {
+  return Deno.env.get(name) || fallback;
+}
+
+export function required(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`Missing environment variable ${name}`);
+  return value;
+}
+
+export const env = {
+  supabaseUrl: () => required('SUPABASE_URL'),
+  supabaseAnonKey: () => required('SUPABASE_ANON_KEY'),
+  openaiApiKey: () => required('OPENAI_API_KEY'),
+  openaiBaseUrl: () => optional('OPENAI_BASE_URL', 'https://api.openai.com/v1'),
+  googleApiKey: () => required('GOOGLE_API_KEY'),
+  googleCseId: () => required('GOOGLE_CSE_ID'),
+  googleCseUrl: () => optional('GOOGLE_CSE_URL', 'https://www.googleapis.com/customsearch/v1'),
+  unsplashAccessKey: () => required('UNSPLASH_ACCESS_KEY'),
+  unsplashApiUrl: () => optional('UNSPLASH_API_URL', 'https://api.unsplash.com'),
+  productProviders: () => optional('PRODUCT_PROVIDERS', 'google'), // comma-separated: google, catalog, mock
+  productCatalogUrl: () => required('PRODUCT_CATALOG_URL'),
+  // Daily allowances per user (UTC days); 0 turns a limit off
+  dailyLlmTokens: () => Number(optional('USAGE_DAILY_LLM_TOKENS', '200000')),
+  dailySearchCalls: () => Number(optional('USAGE_DAILY_SEARCH_CALLS', '200')),
+  dailyImageCalls: () => Number(optional('USAGE_DAILY_IMAGE_CALLS', '300')),
+};
@@ -0,0 +1,80 @@
+/*
+ * Response helpers shared by every edge function.
+ */
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+/**
+ * An error whose message is safe to show to the user, returned with the given status. `details` are
+ * sent alongside the message for the client to act on, e.g. `{ code: 'usage_limit', resetsAt }`.
+ */
+export class HttpError extends Error {
+  constructor(public status: number, message: string, public details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Stream each item as one line of newline-delimited JSON. A failure mid-stream is reported as a
+ * final `{ "error": ... }` line, since the 200 status has already been sent.
+ */
+export function ndjsonResponse(items: AsyncIterable<unknown>): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const item of items) controller.enqueue(encoder.encode(`${JSON.stringify(item)}\n`));
+      } catch (error) {
+        console.error('Stream failed:', error);
+        const body = error instanceof HttpError
+          ? { error: error.message, ...error.details }
+          : { error: 'Something went wrong. Please try again.' };
+        controller.enqueue(encoder.encode(`${JSON.stringify(body)}\n`));
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: { ...corsHeaders, 'Content-Type': 'application/x-ndjson' },
+  });
+}
+
+/**
+ * Wrap a handler with CORS preflight handling and uniform JSON error responses.
+ */
+export function handle(handler: (req: Request) => Promise<Response>): (req: Request) => Promise<Response> {
+  return async req => {
+    if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+    if (req.method !== 'POST') return jsonResponse({ error: 'Method not allowed' }, 405);
+
+    try {
+      return await handler(req);
+    } catch (error) {
+      if (error instanceof HttpError) return jsonResponse({ error: error.message, ...error.details }, error.status);
+      console.error('Unhandled edge function error:', error);
+      return jsonResponse({ error: 'Something went wrong. Please try again.' }, 500);
+    }
+  };
+}
+
+export async function readJson<T>(req: Request): Promise<T> {
+  try {
+    return (await req.json()) as T;
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON');
+  }
+}
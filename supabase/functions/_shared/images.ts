@@ -0,0 +1,64 @@
+/*
+ * Unsplash imagery for products without a picture of their own. Search results are kept in memory
+ * for the life of the function instance, so the products of one search (and repeat searches) share a
+ * single Unsplash request.
+ */
+
+import { env } from './env.ts';
+import { recordUsage } from './usage.ts';
+
+const IMAGE_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_CACHED_QUERIES = 500;
+
+const imageCache = new Map<string, { urls: Promise<string[]>; expiresAt: number }>();
+
+function searchUnsplash(searchQuery: string): Promise<string[]> {
+  const key = searchQuery.trim().toLowerCase().replace(/\s+/g, ' ');
+  const entry = imageCache.get(key);
+  if (entry && entry.expiresAt > Date.now()) return entry.urls;
+
+  const urls = fetchUnsplash(searchQuery);
+  if (imageCache.size >= MAX_CACHED_QUERIES) imageCache.delete(imageCache.keys().next().value!);
+  imageCache.set(key, { urls, expiresAt: Date.now() + IMAGE_TTL_MS });
+  // Failed lookups are retried next time
+  urls.catch(() => imageCache.delete(key));
+  return urls;
+}
+
+async function fetchUnsplash(searchQuery: string): Promise<string[]> {
+  const response = await fetch(
+    `${env.unsplashApiUrl()}/search/photos?query=${encodeURIComponent(searchQuery)}&orientation=portrait&per_page=5`,
+    {
+      headers: {
+        'Authorization': `Client-ID ${env.unsplashAccessKey()}`,
+      },
+    }
+  );
+  recordUsage('imageCalls');
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch from Unsplash');
+  }
+
+  const data = await response.json();
+  return (data.results ?? []).map((result: { urls: { regular: string } }) => result.urls.regular);
+}
+
+export async function getUnsplashImage(query: string, imagePrompt?: string): Promise<string> {
+  try {
+    const searchQuery = imagePrompt
+      ? `${imagePrompt} outfit`
+      : `${query} fashion outfit style`;
+
+    const urls = await searchUnsplash(searchQuery);
+    if (urls.length > 0) {
+      return urls[Math.floor(Math.random() * urls.length)];
+    }
+
+    throw new Error('No images found');
+  } catch (error) {
+    console.error('Unsplash API error:', error);
+    const fallbackQuery = `${query} fashion outfit style ${Math.random()}`;
+    return `https://source.unsplash.com/400x600/?${encodeURIComponent(fallbackQuery)}`;
+  }
+}
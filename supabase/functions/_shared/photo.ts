@@ -0,0 +1,21 @@
+/*
+ * Rules for photos attached in the chat. The app imports this file too, so a photo is refused in the
+ * browser with the same limit and message as here; keep it free of Deno APIs.
+ */
+
+// Image types the stylist model accepts; the app sends downscaled JPEGs
+export const PHOTO_DATA_URL = /^data:image\/(jpeg|png|webp|gif);base64,/;
+
+// Photos travel as base64 data URLs, 4 characters per 3 bytes, so this is about 3 MB of image
+export const MAX_PHOTO_DATA_URL_LENGTH = 4_000_000;
+
+/**
+ * Why a photo data URL would be refused, or null when it is accepted.
+ */
+export function photoProblem(photo: string): string | null {
+  if (!PHOTO_DATA_URL.test(photo)) return 'Please attach a JPEG, PNG, WebP or GIF photo';
+  if (photo.length > MAX_PHOTO_DATA_URL_LENGTH) {
+    return 'That photo is too large. Encoded for upload it must stay under 4,000,000 characters, about 3 MB of image';
+  }
+  return null;
+}
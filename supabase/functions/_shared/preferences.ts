@@ -0,0 +1,85 @@
+/*
+ * Per-user settings read on behalf of the caller. Queries run with the caller's token, so the
+ * tables' row-level security decides what is visible.
+ */
+
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { CustomStore, StorePreferences, StyleProfile, WardrobePiece } from './types.ts';
+import { DEFAULT_STORE_PREFERENCES } from './products/stores.ts';
+
+function isCustomStore(value: unknown): value is CustomStore {
+  const store = value as CustomStore;
+  return typeof store?.domain === 'string' && typeof store?.name === 'string';
+}
+
+/**
+ * The user's store preferences, or the defaults when none are saved or they cannot be read.
+ */
+export async function loadStorePreferences(supabase: SupabaseClient, userId: string): Promise<StorePreferences> {
+  const { data, error } = await supabase
+    .from('store_preferences')
+    .select('preferred_stores, blocked_stores, custom_stores, per_store_limit')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) console.error('Could not load store preferences:', error.message);
+  if (!data) return DEFAULT_STORE_PREFERENCES;
+
+  return {
+    preferred: data.preferred_stores ?? [],
+    blocked: data.blocked_stores ?? [],
+    custom: Array.isArray(data.custom_stores) ? data.custom_stores.filter(isCustomStore) : [],
+    perStoreLimit: data.per_store_limit ?? DEFAULT_STORE_PREFERENCES.perStoreLimit,
+  };
+}
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && !!item.trim()) : [];
+}
+
+/**
+ * The user's style profile, or undefined when none is saved or it cannot be read.
+ */
+export async function loadStyleProfile(supabase: SupabaseClient, userId: string): Promise<StyleProfile | undefined> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('gender_presentation, sizes, size_range, fits, favorite_colors, disliked_items, modesty, notes')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) console.error('Could not load style profile:', error.message);
+  if (!data) return undefined;
+
+  return {
+    genderPresentation: data.gender_presentation ?? undefined,
+    sizes: data.sizes && typeof data.sizes === 'object' ? data.sizes : {},
+    sizeRange: data.size_range ?? undefined,
+    fits: strings(data.fits) as StyleProfile['fits'],
+    favoriteColors: strings(data.favorite_colors),
+    dislikedItems: strings(data.disliked_items),
+    modesty: data.modesty ?? undefined,
+    notes: data.notes?.trim() || undefined,
+  };
+}
+
+/**
+ * The user's wardrobe, newest first, or an empty list when it cannot be read.
+ */
+export async function loadWardrobe(supabase: SupabaseClient, userId: string): Promise<WardrobePiece[]> {
+  const { data, error } = await supabase
+    .from('wardrobe_items')
+    .select('id, name, type, color, tags')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) console.error('Could not load wardrobe:', error.message);
+  if (!data) return [];
+
+  return data.map(item => ({
+    id: item.id,
+    name: item.name,
+    type: item.type,
+    color: item.color ?? undefined,
+    tags: strings(item.tags),
+  }));
+}
@@ -0,0 +1,89 @@
+/*
+ * Price parsing and budget checks. Stores and feeds write prices in many shapes ("$29.99",
+ * "29.99 USD", "€45", "49,99 €", "$40 - $60", or a bare number from pagemap), so they are normalised here.
+ */
+
+import { Budget, Price } from './types.ts';
+
+const SYMBOL_CURRENCIES: Record<string, string> = {
+  '$': 'USD',
+  'US$': 'USD',
+  'C$': 'CAD',
+  'CA$': 'CAD',
+  'A$': 'AUD',
+  'AU$': 'AUD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+};
+
+const CURRENCY_CODES = ['USD', 'CAD', 'AUD', 'EUR', 'GBP', 'JPY', 'INR'];
+
+// An amount with optional thousands separators and decimals, e.g. 1,299.00, 1.299,00 or 49,99
+const AMOUNT = String.raw`\d+(?:[.,]\d{3})*(?:[.,]\d{1,2})?`;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Longest first, so "US$" wins over "$"; codes only count as whole words
+const CURRENCY = [
+  ...Object.keys(SYMBOL_CURRENCIES).sort((a, b) => b.length - a.length).map(escapeRegExp),
+  ...CURRENCY_CODES.map(code => `(?<![a-z])${code}(?![a-z])`),
+].join('|');
+
+// Only numbers written next to a currency count, so model numbers ("Air Max 90 $120") are skipped.
+// The currency comes first ("$40", "$40 - $60", "USD 40") or last ("49,99 €", "40 - 60 EUR").
+const LEADING_CURRENCY = new RegExp(`(${CURRENCY})\\s?(${AMOUNT})(?:\\s?[-–]\\s?(?:${CURRENCY})?\\s?(${AMOUNT}))?`, 'i');
+const TRAILING_CURRENCY = new RegExp(`(${AMOUNT})(?:\\s?[-–]\\s?(${AMOUNT}))?\\s?(${CURRENCY})`, 'i');
+const BARE_AMOUNT = new RegExp(`^\\s*(${AMOUNT})\\s*$`);
+
+/**
+ * Read an amount whatever its separators: a final "," or "." followed by one or two digits is the
+ * decimal point, any other separator groups thousands.
+ */
+function toAmount(text: string): number {
+  const [, whole, fraction] = text.match(/^(.*?)(?:[.,](\d{1,2}))?$/)!;
+  return Number(`${whole.replace(/[.,]/g, '')}.${fraction ?? '0'}`);
+}
+
+function toCurrency(token: string): string {
+  return SYMBOL_CURRENCIES[token] ?? SYMBOL_CURRENCIES[token.toUpperCase()] ?? token.toUpperCase();
+}
+
+/**
+ * Parse a price from text or a number. The first amount written with a currency is used, and a second
+ * one after a dash ("$40 - $60") makes it a range. Returns null when no such amount is found.
+ */
+export function parsePrice(raw: unknown, currencyHint?: string): Price | null {
+  if (typeof raw === 'number') {
+    return Number.isFinite(raw) && raw > 0 ? { amount: raw, currency: currencyHint?.toUpperCase() || 'USD' } : null;
+  }
+  if (typeof raw !== 'string') return null;
+
+  let found: { low: string; high?: string; currency?: string } | undefined;
+  const leading = raw.match(LEADING_CURRENCY);
+  const trailing = leading ? null : raw.match(TRAILING_CURRENCY);
+  const bare = leading || trailing ? null : raw.match(BARE_AMOUNT);
+  if (leading) found = { currency: leading[1], low: leading[2], high: leading[3] };
+  else if (trailing) found = { low: trailing[1], high: trailing[2], currency: trailing[3] };
+  else if (bare) found = { low: bare[1] }; // feeds such as pagemap give the number alone
+  if (!found) return null;
+
+  const amounts = [found.low, found.high].flatMap(value => (value ? [toAmount(value)] : [])).filter(value => value > 0);
+  if (!amounts.length) return null;
+
+  const currency = currencyHint?.toUpperCase() || (found.currency && toCurrency(found.currency)) || 'USD';
+  const [low, high] = amounts.length === 2 ? [Math.min(...amounts), Math.max(...amounts)] : [amounts[0], undefined];
+  return high !== undefined && high !== low ? { amount: low, maxAmount: high, currency } : { amount: low, currency };
+}
+
+/**
+ * Whether a product price can fit the budget. Prices in another currency, or unknown prices, are
+ * kept since they cannot be compared.
+ */
+export function fitsBudget(price: Price | null, budget?: Budget): boolean {
+  if (!budget || !price || price.currency !== budget.currency) return true;
+  if (budget.max !== undefined && price.amount > budget.max) return false;
+  if (budget.min !== undefined && (price.maxAmount ?? price.amount) < budget.min) return false;
+  return true;
+}
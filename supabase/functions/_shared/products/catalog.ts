@@ -0,0 +1,156 @@
+/*
+ * Local product catalog loaded from a JSON or CSV file, for retailer feeds and offline development.
+ *
+ * JSON: an array of objects. CSV: a header row followed by one product per line.
+ * Fields: title, link, image, price, store, currency?, description?, tags?, audience? ('men' | 'women' | 'unisex').
+ * Tags are separated by "|" in CSV and may be an array in JSON.
+ */
+
+import { Product } from '../types.ts';
+import { env } from '../env.ts';
+import { parsePrice } from '../price.ts';
+import { ProductProvider, ProductQuery, SearchOptions } from './provider.ts';
+
+interface CatalogEntry extends Product {
+  tags: string[];
+  audience?: string;
+  keywords: string; // lowercased title, description and tags for matching
+}
+
+const MAX_RESULTS = 6;
+
+// Words that appear in most queries and say nothing about the garment
+const STOP_WORDS = new Set(['and', 'the', 'with', 'for', 'outfit', 'look', 'style', 'top', 'bottom', 'shoes', 'accessories']);
+
+/**
+ * Split CSV text into rows of fields, honouring double-quoted fields with embedded commas,
+ * newlines and doubled quotes.
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(fields => fields.some(value => value.trim()));
+}
+
+function csvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const keys = header.map(key => key.trim());
+  return rows.map(fields => Object.fromEntries(keys.map((key, index) => [key, fields[index]?.trim() ?? ''])));
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word));
+}
+
+function toEntry(record: Record<string, unknown>): CatalogEntry | null {
+  const text = (key: string) => (typeof record[key] === 'string' ? (record[key] as string).trim() : '');
+  if (!text('title') || !text('link')) return null;
+
+  const tags = Array.isArray(record.tags)
+    ? record.tags.filter((tag): tag is string => typeof tag === 'string')
+    : text('tags').split('|').map(tag => tag.trim()).filter(Boolean);
+
+  return {
+    title: text('title'),
+    link: text('link'),
+    image: text('image'),
+    price: parsePrice(record.price, text('currency') || undefined),
+    store: text('store') || 'Shop',
+    description: text('description') || undefined,
+    tags,
+    audience: text('audience').toLowerCase() || undefined,
+    keywords: [text('title'), text('description'), ...tags].join(' ').toLowerCase(),
+  };
+}
+
+function parseCatalog(source: string, text: string): CatalogEntry[] {
+  const records: Record<string, unknown>[] = /\.csv(?:$|\?)/i.test(source) ? csvRecords(text) : JSON.parse(text);
+  if (!Array.isArray(records)) throw new Error(`Catalog ${source} must contain a list of products`);
+
+  return records.map(toEntry).filter((entry): entry is CatalogEntry => entry !== null);
+}
+
+/**
+ * Catalog provider reading from `source`, any URL fetch() understands (https:, or file: for a local file).
+ * Defaults to PRODUCT_CATALOG_URL. The catalog is loaded once per function instance.
+ */
+export function createCatalogProvider(source = env.productCatalogUrl()): ProductProvider {
+  let catalog: Promise<CatalogEntry[]> | null = null;
+
+  const load = () => {
+    catalog ??= fetch(source)
+      .then(response => {
+        if (!response.ok) throw new Error(`Could not load catalog ${source} (${response.status})`);
+        return response.text();
+      })
+      .then(text => parseCatalog(source, text))
+      .catch(error => {
+        catalog = null; // retry on the next search
+        throw error;
+      });
+    return catalog;
+  };
+
+  return {
+    name: 'catalog',
+    async search(query: ProductQuery, options: SearchOptions): Promise<Product[]> {
+      const terms = [...new Set(tokenize(`${query.searchQuery} ${query.type}`))];
+      if (!terms.length) return [];
+
+      const entries = await load();
+      return entries
+        .filter(entry => !options.audience || !entry.audience || entry.audience === 'unisex' || entry.audience === options.audience)
+        .map(entry => ({ entry, score: terms.filter(term => entry.keywords.includes(term)).length }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_RESULTS)
+        .map(({ entry: { title, link, image, price, store, description } }) => ({
+          title,
+          link,
+          image,
+          price,
+          store,
+          description,
+        }));
+    },
+  };
+}
@@ -0,0 +1,90 @@
+/*
+ * Google Custom Search restricted to the user's stores (the partner stores by default), with at most
+ * `perStoreLimit` products per store.
+ */
+
+import { Product } from '../types.ts';
+import { env } from '../env.ts';
+import { getUnsplashImage } from '../images.ts';
+import { parsePrice } from '../price.ts';
+import { AUDIENCE_TERMS, ProductProvider, ProductQuery, SearchOptions } from './provider.ts';
+import { buildStoreDirectory, storeDomain, storeName } from './stores.ts';
+import { recordUsage } from '../usage.ts';
+
+const MAX_RESULTS = 6;
+
+// Google truncates long queries, so only the first stores (preferred ones come first) are searched
+const MAX_SITE_TERMS = 15;
+
+async function search(outfit: ProductQuery, options: SearchOptions): Promise<Product[]> {
+  const directory = buildStoreDirectory(options.stores);
+  if (!directory.domains.length) return [];
+
+  const sites = directory.domains.slice(0, MAX_SITE_TERMS);
+  const siteRestriction = `(${sites.map(site => `site:${site}`).join(' OR ')})`;
+  const department = options.audience ? `${AUDIENCE_TERMS[options.audience]} ` : '';
+  const enhancedQuery = `${department}${outfit.searchQuery} clothing ${siteRestriction}`;
+
+  const url = new URL(env.googleCseUrl());
+  url.searchParams.append('key', env.googleApiKey());
+  url.searchParams.append('cx', env.googleCseId());
+  url.searchParams.append('q', enhancedQuery);
+  url.searchParams.append('num', '10');
+  url.searchParams.append('gl', 'us');
+
+  const response = await fetch(url.toString());
+  recordUsage('searchCalls');
+  const contentType = response.headers.get('content-type');
+
+  if (!response.ok || !contentType?.includes('application/json')) {
+    console.error('Invalid response from Google API:', response.status, contentType);
+    return [];
+  }
+
+  const data = await response.json();
+  if (!data.items) return [];
+
+  const perStore = new Map<string, number>();
+  const products: Product[] = [];
+
+  for (const item of data.items) {
+    const domain = storeDomain(item.link, directory) ?? '';
+    if (directory.blocked.has(domain)) continue;
+
+    const count = perStore.get(domain) ?? 0;
+    if (count >= directory.perStoreLimit) continue;
+    perStore.set(domain, count + 1);
+
+    const store = storeName(domain, directory);
+
+    const offer = item.pagemap?.offer?.[0];
+    const price =
+      parsePrice(offer?.price, offer?.pricecurrency) ||
+      parsePrice(item.pagemap?.product?.[0]?.price) ||
+      parsePrice(item.title) ||
+      parsePrice(item.snippet);
+
+    const image =
+      item.pagemap?.cse_image?.[0]?.src ||
+      item.pagemap?.cse_thumbnail?.[0]?.src ||
+      item.pagemap?.product?.[0]?.image ||
+      (await getUnsplashImage(outfit.searchQuery, outfit.imagePrompt));
+
+    products.push({
+      title: item.title.split(/[|-]/)[0].trim(),
+      link: item.link,
+      image,
+      price,
+      store,
+      description: item.snippet,
+    });
+
+    if (products.length >= MAX_RESULTS) break;
+  }
+
+  return products;
+}
+
+export function createGoogleProvider(): ProductProvider {
+  return { name: 'google', search };
+}
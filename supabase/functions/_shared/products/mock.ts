@@ -0,0 +1,42 @@
+/*
+ * Canned products derived from the outfit itself. Needs no network at all, so the app can run
+ * fully offline; images are inline SVG placeholders.
+ */
+
+import { Product } from '../types.ts';
+import { ProductProvider, ProductQuery, SearchOptions } from './provider.ts';
+
+const MOCK_STORES = ['Mock Outfitters', 'Sample & Co', 'Placeholder Supply'];
+
+function placeholderImage(label: string): string {
+  const text = label.replace(/[<>&"]/g, '').slice(0, 28);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="600"><rect width="100%" height="100%" fill="#f3f4f6"/><text x="50%" y="50%" font-family="sans-serif" font-size="20" fill="#6b7280" text-anchor="middle">${text}</text></svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+/**
+ * One product per outfit piece ("Top: ..., Shoes: ..."), up to three.
+ */
+function search(query: ProductQuery, options: SearchOptions): Promise<Product[]> {
+  const pieces = query.description
+    .split(/[,\n]/)
+    .map(piece => piece.replace(/^[^:]*:/, '').trim())
+    .filter(Boolean)
+    .slice(0, 3);
+  const department = options.audience ? `${options.audience}/` : '';
+
+  return Promise.resolve(
+    (pieces.length ? pieces : [query.type]).map((piece, index) => ({
+      title: piece,
+      link: `https://example.com/${department}${encodeURIComponent(piece.toLowerCase().replace(/\s+/g, '-'))}`,
+      image: placeholderImage(piece),
+      price: { amount: 29 + index * 20, currency: 'USD' },
+      store: MOCK_STORES[index % MOCK_STORES.length],
+      description: `Mock product for ${query.type}`,
+    }))
+  );
+}
+
+export function createMockProvider(): ProductProvider {
+  return { name: 'mock', search };
+}
@@ -0,0 +1,28 @@
+/*
+ * Common shape for product sources. searchProducts in ../shopping.ts runs every configured provider
+ * for an outfit and merges their results, so a provider only has to answer for itself.
+ */
+
+import { Audience, Budget, GeneratedOutfit, Product, StorePreferences, StyleProfile } from '../types.ts';
+
+export interface SearchOptions {
+  audience?: Audience;
+  budget?: Budget; // applied by searchProducts after the providers answer
+  stores?: StorePreferences; // the signed-in user's saved choices, loaded by the edge function
+  profile?: StyleProfile; // folded into the query and audience by searchProducts
+}
+
+export type ProductQuery = Pick<GeneratedOutfit, 'type' | 'description' | 'searchQuery' | 'pieces'> & { imagePrompt?: string };
+
+export interface ProductProvider {
+  /** Name used in PRODUCT_PROVIDERS and in logs. */
+  name: string;
+  /** Products for one outfit, best match first. Resolve to [] when nothing matches. */
+  search(query: ProductQuery, options: SearchOptions): Promise<Product[]>;
+}
+
+// Department terms that steer the search towards the selected audience
+export const AUDIENCE_TERMS: Record<Audience, string> = {
+  men: "men's",
+  women: "women's",
+};
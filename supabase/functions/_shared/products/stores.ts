@@ -0,0 +1,103 @@
+/*
+ * Partner retailers and per-user store preferences. The partner list is mirrored in
+ * src/services/preferences.ts for the settings screen; keep both in sync.
+ */
+
+import { CustomStore, StorePreferences } from '../types.ts';
+
+export const PARTNER_STORES: CustomStore[] = [
+  { domain: 'armaniexchange.com', name: 'AX' },
+  { domain: 'ae.com', name: 'AE' },
+  { domain: 'hm.com', name: 'H&M' },
+  { domain: 'target.com', name: 'Target' },
+  { domain: 'forever21.com', name: 'Forever 21' },
+  { domain: 'shein.com', name: 'Shein' },
+  { domain: 'uniqlo.com', name: 'Uniqlo' },
+  { domain: 'zara.com', name: 'Zara' },
+  { domain: 'nordstrom.com', name: 'Nordstrom' },
+  { domain: 'asos.com', name: 'ASOS' },
+  { domain: 'fashionnova.com', name: 'Fashion Nova' },
+  { domain: 'coach.com', name: 'Coach' },
+];
+
+// Stores that show up in results without being searched for directly
+const KNOWN_STORE_NAMES: Record<string, string> = {
+  'macys.com': 'Macys',
+};
+
+export const DEFAULT_STORE_PREFERENCES: StorePreferences = {
+  preferred: [],
+  blocked: [],
+  custom: [],
+  perStoreLimit: 1,
+};
+
+export const MAX_PER_STORE_LIMIT = 6;
+
+export interface StoreDirectory {
+  domains: string[]; // domains to search, preferred first
+  names: Record<string, string>; // display name by domain
+  preferred: Set<string>;
+  blocked: Set<string>;
+  perStoreLimit: number;
+}
+
+/**
+ * Reduce user input such as "https://www.Everlane.com/men" to "everlane.com". Returns null for
+ * anything that does not look like a domain.
+ */
+export function normalizeDomain(input: string): string | null {
+  const host = input.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').split(/[/?#]/)[0].replace(/^www\./, '');
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(host) ? host : null;
+}
+
+/**
+ * Combine the partner stores with a user's preferences.
+ */
+export function buildStoreDirectory(preferences: StorePreferences = DEFAULT_STORE_PREFERENCES): StoreDirectory {
+  const blocked = new Set(preferences.blocked.map(normalizeDomain).filter((domain): domain is string => !!domain));
+  const preferred = new Set(
+    preferences.preferred.map(normalizeDomain).filter((domain): domain is string => !!domain && !blocked.has(domain))
+  );
+
+  const names: Record<string, string> = { ...KNOWN_STORE_NAMES };
+  const stores = [...PARTNER_STORES, ...preferences.custom];
+  for (const store of stores) {
+    const domain = normalizeDomain(store.domain);
+    if (domain) names[domain] = store.name.trim() || names[domain] || domain;
+  }
+
+  const searchable = [...new Set(stores.map(store => normalizeDomain(store.domain)))]
+    .filter((domain): domain is string => !!domain && !blocked.has(domain));
+
+  return {
+    domains: [...searchable.filter(domain => preferred.has(domain)), ...searchable.filter(domain => !preferred.has(domain))],
+    names,
+    preferred,
+    blocked,
+    perStoreLimit: Math.min(Math.max(Math.round(preferences.perStoreLimit) || 1, 1), MAX_PER_STORE_LIMIT),
+  };
+}
+
+/**
+ * The directory domain a product link belongs to, or its bare host when the store is unknown.
+ */
+export function storeDomain(link: string, directory: StoreDirectory): string | null {
+  let host: string;
+  try {
+    host = new URL(link).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+
+  const known = Object.keys(directory.names).find(domain => host === domain || host.endsWith(`.${domain}`));
+  return known ?? host;
+}
+
+/**
+ * Display name for a store domain, e.g. "hm.com" -> "H&M" or "everlane.com" -> "everlane".
+ */
+export function storeName(domain: string | null, directory: StoreDirectory): string {
+  if (!domain) return 'Shop';
+  return directory.names[domain] || domain.split('.')[0];
+}
@@ -0,0 +1,120 @@
+/*
+ * JSON Schemas sent as OpenAI structured-output response formats. Strict mode requires every
+ * property to be listed as required, so optional fields are expressed as nullable instead.
+ */
+
+const nullableString = { type: ['string', 'null'] };
+const nullableNumber = { type: ['number', 'null'] };
+
+const generatedOutfit = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['type', 'description', 'searchQuery', 'imagePrompt', 'pieces'],
+  properties: {
+    type: { type: 'string', description: 'Creative outfit title' },
+    description: { type: 'string', description: 'Top: ..., Bottom: ..., Shoes: ..., Accessories: ...' },
+    searchQuery: { type: 'string', description: 'Short shopping query for the pieces the user does not own' },
+    imagePrompt: { type: 'string', description: 'Vivid image prompt describing scene and outfit' },
+    pieces: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['name', 'wardrobeItemId'],
+        properties: {
+          name: { type: 'string' },
+          wardrobeItemId: { ...nullableString, description: 'Id of the owned wardrobe item, or null for a piece to buy' },
+        },
+      },
+    },
+  },
+};
+
+export const outfitListFormat = {
+  type: 'json_schema',
+  json_schema: {
+    name: 'outfit_list',
+    strict: true,
+    schema: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['outfits'],
+      properties: {
+        outfits: { type: 'array', items: generatedOutfit },
+      },
+    },
+  },
+} as const;
+
+export const capsulePlanFormat = {
+  type: 'json_schema',
+  json_schema: {
+    name: 'capsule_plan',
+    strict: true,
+    schema: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['capsule', 'days'],
+      properties: {
+        capsule: { type: 'array', items: { type: 'string' } },
+        days: {
+          type: 'array',
+          items: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['date', 'outfits'],
+            properties: {
+              date: { type: 'string', description: 'yyyy-MM-dd' },
+              outfits: { type: 'array', items: generatedOutfit },
+            },
+          },
+        },
+      },
+    },
+  },
+} as const;
+
+export const extractedInfoFormat = {
+  type: 'json_schema',
+  json_schema: {
+    name: 'extracted_info',
+    strict: true,
+    schema: {
+      type: 'object',
+      additionalProperties: false,
+      required: [
+        'type', 'destination', 'date', 'endDate', 'event', 'lyrics', 'movie',
+        'anime', 'sports', 'culture', 'activity', 'item', 'location', 'refinement', 'budget',
+      ],
+      properties: {
+        type: {
+          type: 'string',
+          enum: ['travel', 'event', 'lyrics', 'movie', 'anime', 'sports', 'culture', 'activity', 'item'],
+        },
+        destination: nullableString,
+        date: nullableString,
+        endDate: nullableString,
+        event: nullableString,
+        lyrics: nullableString,
+        movie: nullableString,
+        anime: nullableString,
+        sports: nullableString,
+        culture: nullableString,
+        activity: nullableString,
+        item: nullableString,
+        location: nullableString,
+        refinement: nullableString,
+        budget: {
+          type: ['object', 'null'],
+          additionalProperties: false,
+          required: ['min', 'max', 'currency'],
+          properties: {
+            min: nullableNumber,
+            max: nullableNumber,
+            currency: { type: 'string', description: 'ISO 4217 code, e.g. USD' },
+          },
+        },
+      },
+    },
+  },
+} as const;
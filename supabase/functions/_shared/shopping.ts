@@ -0,0 +1,179 @@
+/*
+ * Product search across the providers named in PRODUCT_PROVIDERS (Google Custom Search, a local
+ * catalog, mock data), with Unsplash imagery as a fallback when none of them finds anything.
+ * Runs inside the search-products edge function so no API key reaches the browser.
+ */
+
+import { Audience, Product, StyleProfile } from './types.ts';
+import { env } from './env.ts';
+import { getUnsplashImage } from './images.ts';
+import { fitsBudget } from './price.ts';
+import { buildStoreDirectory, storeDomain } from './products/stores.ts';
+import { ProductProvider, ProductQuery, SearchOptions } from './products/provider.ts';
+import { createGoogleProvider } from './products/google.ts';
+import { createCatalogProvider } from './products/catalog.ts';
+import { createMockProvider } from './products/mock.ts';
+
+export type { ProductQuery, SearchOptions } from './products/provider.ts';
+
+const MAX_PRODUCTS = 6;
+
+const PROVIDER_FACTORIES: Record<string, () => ProductProvider> = {
+  google: createGoogleProvider,
+  catalog: () => createCatalogProvider(),
+  mock: createMockProvider,
+};
+
+let configuredProviders: ProductProvider[] | null = null;
+
+/**
+ * Providers listed in PRODUCT_PROVIDERS, in order of preference. Unknown names are skipped with a warning.
+ */
+function getProviders(): ProductProvider[] {
+  configuredProviders ??= env.productProviders()
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean)
+    .flatMap(name => {
+      const factory = PROVIDER_FACTORIES[name];
+      if (!factory) console.warn(`Unknown product provider "${name}"`);
+      return factory ? [factory()] : [];
+    });
+  return configuredProviders;
+}
+
+async function getFallbackProducts(outfit: ProductQuery): Promise<Product[]> {
+  const { searchQuery, imagePrompt, type } = outfit;
+  const image = await getUnsplashImage(searchQuery, imagePrompt);
+
+  return [
+    {
+      title: type || 'Style Suggestion',
+      link: '#',
+      image,
+      price: null,
+      store: 'Style',
+      description: outfit.description || 'AI-curated style suggestion',
+    },
+  ];
+}
+
+// The same product often shows up with tracking parameters or a trailing slash
+function productKey(product: Product): string {
+  try {
+    const url = new URL(product.link);
+    return `${url.hostname.replace(/^www\./, '')}${url.pathname.replace(/\/+$/, '')}`.toLowerCase();
+  } catch {
+    return `${product.store}|${product.title}`.toLowerCase();
+  }
+}
+
+/**
+ * Interleave the providers' results so each one is represented, dropping duplicates.
+ */
+function mergeProducts(resultLists: Product[][], limit = MAX_PRODUCTS): Product[] {
+  const seen = new Set<string>();
+  const merged: Product[] = [];
+  const longest = Math.max(0, ...resultLists.map(list => list.length));
+
+  for (let index = 0; index < longest && merged.length < limit; index++) {
+    for (const list of resultLists) {
+      const product = list[index];
+      if (!product) continue;
+
+      const key = productKey(product);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      merged.push(product);
+      if (merged.length >= limit) break;
+    }
+  }
+
+  return merged;
+}
+
+const PRESENTATION_AUDIENCES: Partial<Record<NonNullable<StyleProfile['genderPresentation']>, Audience>> = {
+  masculine: 'men',
+  feminine: 'women',
+};
+
+const SIZE_RANGE_TERMS: Partial<Record<NonNullable<StyleProfile['sizeRange']>, string>> = {
+  petite: 'petite',
+  tall: 'tall',
+  plus: 'plus size',
+};
+
+/**
+ * Fold the style profile into the search: size range, fit and modesty become query terms, and the
+ * gender presentation picks the department unless a filter badge already did.
+ */
+function applyProfile(outfit: ProductQuery, options: SearchOptions): [ProductQuery, SearchOptions] {
+  const { profile } = options;
+  if (!profile) return [outfit, options];
+
+  const fit = profile.fits.find(candidate => candidate !== 'regular');
+  const terms = [
+    profile.sizeRange && SIZE_RANGE_TERMS[profile.sizeRange],
+    fit && `${fit} fit`,
+    profile.modesty === 'high' && 'modest',
+  ].filter(Boolean);
+
+  const audience = options.audience
+    ?? (profile.genderPresentation && PRESENTATION_AUDIENCES[profile.genderPresentation]);
+  return [
+    terms.length ? { ...outfit, searchQuery: `${terms.join(' ')} ${outfit.searchQuery}` } : outfit,
+    { ...options, audience },
+  ];
+}
+
+/**
+ * Narrow a look that mixes owned and new pieces to the new ones, so providers that match on the
+ * description do not look for clothes the user already has. Null when every piece is owned.
+ */
+function missingPieces(outfit: ProductQuery): ProductQuery | null {
+  const pieces = outfit.pieces ?? [];
+  if (!pieces.some(piece => piece.owned)) return outfit;
+
+  const missing = pieces.filter(piece => !piece.owned);
+  if (!missing.length) return null;
+  return { ...outfit, description: missing.map(piece => piece.name).join(', ') };
+}
+
+/**
+ * Search every configured provider for the pieces of the outfit the user does not own; a look built
+ * entirely from the user's wardrobe has nothing to search for. A failing provider is logged and skipped.
+ * Products from blocked stores or priced outside `options.budget` are dropped before the results are
+ * merged, and products from preferred stores are listed first.
+ */
+export async function searchProducts(
+  outfitQuery: ProductQuery,
+  searchOptions: SearchOptions = {},
+  providers: ProductProvider[] = getProviders()
+): Promise<Product[]> {
+  const toBuy = missingPieces(outfitQuery);
+  if (!toBuy) return [];
+
+  const [outfit, options] = applyProfile(toBuy, searchOptions);
+  const directory = buildStoreDirectory(options.stores);
+  const results = await Promise.allSettled(providers.map(provider => provider.search(outfit, options)));
+
+  const resultLists = results.map((result, index) => {
+    if (result.status === 'rejected') {
+      console.error(`Product provider ${providers[index].name} failed:`, result.reason);
+      return [];
+    }
+    return result.value.filter(product =>
+      fitsBudget(product.price, options.budget) && !directory.blocked.has(storeDomain(product.link, directory) ?? '')
+    );
+  });
+
+  const isPreferred = (product: Product) => directory.preferred.has(storeDomain(product.link, directory) ?? '');
+  const merged = mergeProducts(resultLists);
+  const products = [...merged.filter(isPreferred), ...merged.filter(product => !isPreferred(product))];
+  if (!products.length) return getFallbackProducts(outfit);
+
+  // Catalog feeds may leave out images
+  return Promise.all(products.map(async product =>
+    product.image ? product : { ...product, image: await getUnsplashImage(outfit.searchQuery, outfit.imagePrompt) }
+  ));
+}
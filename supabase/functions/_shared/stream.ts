@@ -0,0 +1,46 @@
+/*
+ * Incremental parsing of streamed `{"outfits": [...]}` completions.
+ */
+
+// Root object -> outfits array -> outfit object
+const OUTFIT_DEPTH = 3;
+
+/**
+ * Feed completion deltas in; get back the raw JSON text of every outfit object that has closed.
+ * Tracks string literals so braces inside descriptions are not mistaken for structure.
+ */
+export class OutfitStreamParser {
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private current = '';
+
+  push(chunk: string): string[] {
+    const complete: string[] = [];
+
+    for (const char of chunk) {
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (char === '\\') this.escaped = true;
+        else if (char === '"') this.inString = false;
+      } else if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        this.depth++;
+        if (this.depth === OUTFIT_DEPTH) this.current = '';
+      } else if (char === '}' || char === ']') {
+        if (this.depth >= OUTFIT_DEPTH) this.current += char;
+        if (this.depth === OUTFIT_DEPTH) {
+          complete.push(this.current);
+          this.current = '';
+        }
+        this.depth--;
+        continue;
+      }
+
+      if (this.depth >= OUTFIT_DEPTH) this.current += char;
+    }
+
+    return complete;
+  }
+}
@@ -0,0 +1,614 @@
+/*
+ * Enhanced OpenAI service for extracting context and generating highly accurate outfit suggestions.
+ * Runs inside the edge functions so the OpenAI key never reaches the browser.
+ */
+
+import OpenAI from 'npm:openai@4';
+import {
+  Audience,
+  ConversationContext,
+  ExtractedInfo,
+  ForecastDay,
+  GeneratedOutfit,
+  OutfitItem,
+  PlanContext,
+  StyleProfile,
+  SuggestionParams,
+  UnitSystem,
+  WardrobePiece,
+} from './types.ts';
+import { env } from './env.ts';
+import { HttpError } from './http.ts';
+import { capsulePlanFormat, extractedInfoFormat, outfitListFormat } from './schemas.ts';
+import {
+  Validation,
+  validateCapsulePlan,
+  validateExtractedInfo,
+  validateGeneratedOutfit,
+  validateOutfitList,
+} from './validation.ts';
+import { OutfitStreamParser } from './stream.ts';
+import { recordUsage } from './usage.ts';
+
+const openai = new OpenAI({
+  apiKey: env.openaiApiKey(),
+  baseURL: env.openaiBaseUrl(),
+});
+
+/**
+ * Choose the best available model. 4‑o‑mini is preferred for speed/cost, falling back to 3.5 if unavailable.
+ */
+function selectModel(): string {
+  return 'gpt-4o-mini'; // SDK will raise at runtime if unavailable; front‑end can log/override
+}
+
+/**
+ * Strip polite prefixes (e.g. "I want", "I want to") so the language model focuses on core intent.
+ */
+function stripLeadingIntent(text: string): string {
+  return text.replace(/^\s*i\s*want(?:\s*to)?\s*/i, '').trim();
+}
+
+// Only the latest turns are sent; older ones rarely change what a follow-up refers to
+const MAX_HISTORY_MESSAGES = 8;
+const MAX_HISTORY_CHARS = 400;
+
+function describeLooks(outfits: PlanContext['outfits']): string {
+  return outfits.map(outfit => `- ${outfit.type}: ${outfit.description}`).join('\n');
+}
+
+function describePlan(plan: PlanContext): string {
+  const fields = [
+    `type: ${plan.type}`,
+    plan.destination && `destination: ${plan.destination}`,
+    plan.date && `date: ${plan.date}`,
+    plan.endDate && `endDate: ${plan.endDate}`,
+    plan.event && `event: ${plan.event}`,
+    plan.subject && `subject: ${plan.subject}`,
+    plan.refinement && `last refinement: ${plan.refinement}`,
+  ].filter(Boolean);
+
+  return `${fields.join(', ')}\nLooks on screen:\n${describeLooks(plan.outfits) || '- (none)'}`;
+}
+
+function describeHistory(history: ConversationContext['history']): string {
+  return history
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map(message => `${message.type === 'user' ? 'User' : 'Stylist'}: ${message.content.slice(0, MAX_HISTORY_CHARS)}`)
+    .join('\n');
+}
+
+/**
+ * Conversation block for the extraction prompt, telling the model how to treat follow-up messages.
+ */
+function buildConversationInput(context?: ConversationContext): string {
+  const history = context?.history ?? [];
+  if (!context?.plan && !history.length) return '';
+
+  let conversationInput = '';
+  if (history.length) conversationInput += `\n\nConversation so far:\n${describeHistory(history)}`;
+  if (context?.plan) conversationInput += `\n\nCurrent plan:\n${describePlan(context.plan)}`;
+
+  return `${conversationInput}
+
+  • The new message may follow up on the conversation. If it changes or adds to the current plan ("what about something for the evening?", "make it more casual", "warmer", "different colors", "swap the shoes"), keep the plan's type, destination, dates and subject fields unless the message replaces them, and put a short description of the requested change in "refinement".
+  • If the message starts a new request, ignore the current plan and set "refinement" to null.`;
+}
+
+const PHOTO_INSTRUCTIONS = `
+  • The user attached a photo. Unless the text asks for something else (a trip, an event), style around the photo:
+    – a single garment, shoe or accessory: {"type":"item"} with "item" describing it precisely enough to shop for, e.g. "rust corduroy wide-leg trousers";
+    – a whole outfit, street-style or mood shot: {"type":"culture"} with "culture" naming the aesthetic and its key pieces, e.g. "90s grunge: oversized flannel, slip dress, combat boots";
+    – a recognisable film or series still: {"type":"movie"} with "movie" set to its title.
+  • With a trip or event in the text, keep that type and add the photographed piece to "refinement" as something to build the looks around.`;
+
+/**
+ * Extract structured intent from the user message, resolving follow-ups against the conversation.
+ * An attached photo (a data URL) is described by the vision model into the item, culture or movie field.
+ */
+export async function extractTravelInfo(
+  message: string,
+  today: string,
+  context?: ConversationContext,
+  photo?: string
+): Promise<ExtractedInfo> {
+  if (!message.trim() && !photo) throw new HttpError(400, 'Please provide a valid input');
+
+  const cleanedMessage = stripLeadingIntent(message) || 'Style the piece or look in this photo.';
+  const userContent: Message['content'] = photo
+    ? [{ type: 'text', text: cleanedMessage }, { type: 'image_url', image_url: { url: photo } }]
+    : cleanedMessage;
+
+  const systemPrompt = `You are an AI fashion assistant. Identify the *primary* fashion‑relevant context from the user message and reply with a JSON object following this schema:
+  {
+    "type": "travel | event | lyrics | movie | anime | sports | culture | activity | item",
+    // fill the ONE field matching the type; every other field is null
+    "destination": string | null,
+    "date": string | null,      // ISO 8601 yyyy-MM-dd if a date is present or implied; the FIRST day of a range
+    "endDate": string | null,   // ISO 8601 yyyy-MM-dd LAST day when a date range or trip length is given
+    "event": string | null,
+    "lyrics": string | null,
+    "movie": string | null,
+    "anime": string | null,
+    "sports": string | null,
+    "culture": string | null,
+    "activity": string | null,
+    "item": string | null,      // e.g. "floral dress", "white blazer"
+    "location": string | null,  // city/region if detected separate from destination
+    "refinement": string | null, // requested change to the current plan (follow-ups only)
+    "budget": { "min": number | null, "max": number | null, "currency": string } | null // price limit per item
+  }
+  • Always pick the *single* most relevant type.
+  • If the message is just a garment/style description (e.g. "floral dress"), set {"type":"item","item":"floral dress"}.
+  • Today is ${today}; resolve relative dates ("next week", "May 3") against it.
+  • For a range like "Tokyo from May 3 to May 9" or "5 days in Rome", set both "date" and "endDate".
+  • Spending limits ("under $150", "between €50 and €100", "cheap") go in "budget" as plain numbers with an ISO currency code; leave it null when no amount is given.
+  • If nothing fits, respond with {"type":"item","item":"general"}${photo ? PHOTO_INSTRUCTIONS : ''}${buildConversationInput(context)}`;
+
+  const info = await requestValidated(
+    [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userContent },
+    ],
+    extractedInfoFormat,
+    validateExtractedInfo,
+    { temperature: 0 }
+  );
+
+  if (!info) throw new HttpError(422, 'Could not understand your request. Please add more detail.');
+  return { ...info, raw: message };
+}
+
+/** Utility helpers **/
+function getSeason(date: Date): string {
+  const m = date.getMonth();
+  return m < 2 || m === 11 ? 'Winter' : m < 5 ? 'Spring' : m < 8 ? 'Summer' : 'Fall';
+}
+
+function formatDegrees(value: number, units: UnitSystem = 'imperial'): string {
+  return `${Math.round(value)}°${units === 'metric' ? 'C' : 'F'}`;
+}
+
+/**
+ * A temperature in the user's units with its category, e.g. "21°C (Warm)". Categories always use the
+ * °F thresholds below.
+ */
+function describeTemperature(value: number, units: UnitSystem = 'imperial'): string {
+  return `${formatDegrees(value, units)} (${getTemperatureCategory(Math.round(toFahrenheit(value, units)))})`;
+}
+
+// Highs and lows this many °F apart call for layers that carry a look into the evening
+const LAYERING_SWING_F = 15;
+// Apparent temperatures this many °F off the real ones are worth mentioning
+const FEELS_LIKE_GAP_F = 4;
+// WHO "high" UV, from which sun protection is suggested
+const HIGH_UV = 6;
+const VERY_HIGH_UV = 8;
+// Hours sampled to show how the temperature moves through the day
+const SAMPLE_HOURS = ['09:00', '15:00', '21:00'];
+
+function toFahrenheit(value: number, units: UnitSystem = 'imperial'): number {
+  return units === 'metric' ? value * 9 / 5 + 32 : value;
+}
+
+const localTime = (time: string) => time.slice(11, 16); // "2025-06-01T20:41" -> "20:41"
+
+/**
+ * Guidance from the rest of the forecast: the day-to-night range, the feels-like temperatures, how the
+ * day warms and cools, daylight hours and the UV index.
+ */
+function buildWeatherDetails(weather: ForecastDay): string {
+  const { units, details = {} } = weather;
+  const notes: string[] = [];
+
+  if (weather.temperatureMin !== undefined) {
+    if (!weather.climatology) notes.push(`Low: ${formatDegrees(weather.temperatureMin, units)}.`);
+    if (toFahrenheit(weather.temperature, units) - toFahrenheit(weather.temperatureMin, units) >= LAYERING_SWING_F) {
+      notes.push('The day-to-night swing is large, so build in layers (a light jacket, knit or wrap) that take each look from the warm afternoon into the cooler evening.');
+    }
+  }
+
+  if (details.feelsLike !== undefined) {
+    const gap = Math.abs(toFahrenheit(details.feelsLike, units) - toFahrenheit(weather.temperature, units));
+    const feelsMin = details.feelsLikeMin !== undefined ? ` (${formatDegrees(details.feelsLikeMin, units)} at its coolest)` : '';
+    if (gap >= FEELS_LIKE_GAP_F) notes.push(`With humidity and wind it feels like ${formatDegrees(details.feelsLike, units)}${feelsMin}.`);
+  }
+
+  const samples = SAMPLE_HOURS.flatMap(hour => {
+    const sample = weather.hourly?.find(entry => localTime(entry.time) === hour);
+    return sample ? [`${hour} ${formatDegrees(sample.temperature, units)}`] : [];
+  });
+  if (samples.length > 1) notes.push(`Through the day: ${samples.join(', ')}.`);
+
+  if (weather.sunrise && weather.sunset) {
+    notes.push(`Daylight ${localTime(weather.sunrise)}–${localTime(weather.sunset)}.`);
+  }
+
+  if (details.uvIndex !== undefined && details.uvIndex >= HIGH_UV) {
+    const level = details.uvIndex >= VERY_HIGH_UV ? 'very high' : 'high';
+    notes.push(`UV index ${Math.round(details.uvIndex)} (${level}): include sun protection such as a wide-brim hat, sunglasses and breathable long sleeves or a light cover-up.`);
+  }
+
+  return notes.length ? ` ${notes.join(' ')}` : '';
+}
+
+function getTemperatureCategory(tempF: number): string {
+  if (tempF >= 95) return 'Extreme Heat';
+  if (tempF >= 85) return 'Very Hot';
+  if (tempF >= 75) return 'Hot';
+  if (tempF >= 65) return 'Warm';
+  if (tempF >= 55) return 'Mild';
+  if (tempF >= 45) return 'Cool';
+  if (tempF >= 35) return 'Cold';
+  return 'Freezing';
+}
+
+/**
+ * Build the brief for `count` outfits from whichever context the plan carries.
+ */
+function buildContextInput(params: SuggestionParams, count: number): string {
+  const { weather, event, lyrics, movie, anime, sports, culture, activity, item } = params;
+  const n = count === 1 ? 'one' : String(count);
+  const outfits = count === 1 ? 'outfit' : 'outfits';
+
+  let contextInput = '';
+  if (weather) {
+    const temp = describeTemperature(weather.temperature, weather.units);
+    const season = getSeason(new Date(weather.date));
+    contextInput = weather.climatology
+      ? `Design ${n} fashion‑forward ${outfits} for ${weather.location}. No forecast exists yet for this date, so plan for its typical climate (historical averages, not a forecast): highs around ${temp}${weather.temperatureMin !== undefined ? `, lows around ${formatDegrees(weather.temperatureMin, weather.units)}` : ''}, usually ${weather.description.toLowerCase()}, Season: ${season}. Allow for variation from the norm.`
+      : `Design ${n} fashion‑forward ${outfits} for ${weather.location}. Temperature: ${temp}, Condition: ${weather.description}, Season: ${season}.`;
+    contextInput += buildWeatherDetails(weather);
+    if (event) contextInput += ` The trip includes a ${event}.`;
+    if (activity) contextInput += ` Planned activity: ${activity}.`;
+  } else if (activity) {
+    contextInput = `Design ${n} functional yet stylish ${outfits} suitable for ${activity}. Focus on performance fabrics, comfort, and aesthetic appeal.`;
+  } else if (event) {
+    contextInput = `Design ${n} on‑trend ${outfits} suitable for a ${event}.`;
+  } else if (lyrics) {
+    contextInput = `Design ${n} ${outfits} inspired by the emotion, tone, and imagery of the lyrics: "${lyrics}".`;
+  } else if (movie) {
+    contextInput = `Design ${n} fashion ${count === 1 ? 'look' : 'looks'} inspired by the visual mood and style of the movie "${movie}".`;
+  } else if (anime) {
+    contextInput = `Design ${n} stylish ${outfits} that channel the characters or aesthetic from the anime "${anime}".`;
+  } else if (sports) {
+    contextInput = `Design ${n} modern fan‑inspired ${outfits} for the occasion: "${sports}".`;
+  } else if (culture) {
+    contextInput = `Design ${n} fashion ${outfits} based on the cultural vibe of "${culture}".`;
+  } else if (item) {
+    contextInput = `Show ${n} creative ${count === 1 ? 'way' : 'ways'} to style a ${item} using current fashion trends.`;
+  } else {
+    contextInput = `Design ${n} versatile and stylish ${outfits} based on cutting‑edge fashion trends.`;
+  }
+
+  return contextInput + buildConstraints(params);
+}
+
+const AUDIENCE_LABELS: Record<Audience, string> = {
+  men: 'menswear',
+  women: 'womenswear',
+};
+
+const MODESTY_RULES: Record<NonNullable<StyleProfile['modesty']>, string> = {
+  none: '',
+  moderate: ' Keep the looks moderately modest: no very short hems or low necklines.',
+  high: ' The looks must be modest: cover shoulders and knees, and avoid sheer, tight or low-cut pieces.',
+};
+
+/**
+ * Describe the user's style profile. Filter badges win over the profile's gender presentation.
+ */
+function buildProfileInput(profile: StyleProfile | undefined, hasAudience: boolean): string {
+  if (!profile) return '';
+
+  let profileInput = '';
+  if (profile.genderPresentation && !hasAudience) {
+    profileInput += ` Dress someone with a ${profile.genderPresentation} presentation.`;
+  }
+
+  const sizes = Object.entries(profile.sizes)
+    .filter(([, size]) => typeof size === 'string' && size.trim())
+    .map(([garment, size]) => `${garment} ${size}`);
+  if (profile.sizeRange && profile.sizeRange !== 'regular') sizes.unshift(`${profile.sizeRange} sizing`);
+  if (sizes.length) profileInput += ` Sizes: ${sizes.join(', ')}.`;
+
+  if (profile.fits.length) profileInput += ` Preferred fit: ${profile.fits.join(' or ')}.`;
+  if (profile.favoriteColors.length) profileInput += ` Favorite colors, use them where they suit: ${profile.favoriteColors.join(', ')}.`;
+  if (profile.dislikedItems.length) profileInput += ` Never include: ${profile.dislikedItems.join(', ')}.`;
+  if (profile.modesty) profileInput += MODESTY_RULES[profile.modesty];
+  if (profile.notes) profileInput += ` Also note: ${profile.notes}.`;
+  return profileInput;
+}
+
+// Enough to cover a real closet without crowding out the rest of the brief
+const MAX_WARDROBE_PIECES = 60;
+
+/**
+ * List the user's own garments by id, so looks can reuse them and the model can say which pieces are owned.
+ */
+function buildWardrobeInput(wardrobe: WardrobePiece[] | undefined): string {
+  if (!wardrobe?.length) return '';
+
+  const pieces = wardrobe.slice(0, MAX_WARDROBE_PIECES).map(piece => {
+    const details = [piece.type, piece.color, ...piece.tags].filter(Boolean).join(', ');
+    return `\n- [${piece.id}] ${piece.name} (${details})`;
+  });
+  return ` The user already owns the pieces below. Build every look around them first and only add new pieces where nothing owned fits; in "pieces", give owned pieces their id in "wardrobeItemId", and write "searchQuery" for the new pieces only.${pieces.join('')}\n`;
+}
+
+/**
+ * Audience and occasion constraints selected through the filter badges, plus the user's style profile
+ * and wardrobe, the trip capsule, and the user's latest refinement and budget if any.
+ */
+function buildConstraints({ audience, occasions, capsule, refinement, budget, profile, wardrobe }: SuggestionParams): string {
+  let constraints = buildProfileInput(profile, !!audience) + buildWardrobeInput(wardrobe);
+  if (refinement) constraints += ` The user asked for this change: ${refinement}.`;
+  if (audience) constraints += ` Style every look as ${AUDIENCE_LABELS[audience]}.`;
+  if (occasions?.length) constraints += ` Each look must suit these occasions: ${occasions.join(', ')}.`;
+  if (budget?.max) constraints += ` Choose pieces that can be bought for under ${budget.max} ${budget.currency} each.`;
+  if (capsule?.length) constraints += ` Build the look from this capsule wardrobe where possible: ${capsule.join('; ')}.`;
+  return constraints;
+}
+
+const OUTFIT_SCHEMA = `{
+  "type": string,               // creative outfit title
+  "description": string,        // Top: ..., Bottom: ..., Shoes: ..., Accessories: ... (one line per item)
+  "searchQuery": string,        // a short query for CSE, for the pieces to buy
+  "imagePrompt": string,        // vivid DALLE/Unsplash prompt describing scene & outfit
+  "pieces": [{ "name": string, "wardrobeItemId": string | null }] // every piece in the description; null unless the user owns it
+}`;
+
+const STYLIST_SYSTEM_PROMPT = 'You are a cutting‑edge AI stylist specialised in merging practicality with high fashion. Respond only with JSON as specified.';
+
+// One initial request plus this many repair attempts
+const MAX_REPAIR_ATTEMPTS = 2;
+
+type ContentPart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+
+// Only user turns carry images
+type Message =
+  | { role: 'system' | 'assistant'; content: string }
+  | { role: 'user'; content: string | ContentPart[] };
+
+function createOutfitId(): string {
+  return Math.random().toString(36).substring(2, 9);
+}
+
+/**
+ * Give each outfit an id, and only count pieces as owned when they name an item in the user's wardrobe.
+ */
+function toOutfitItems(outfits: GeneratedOutfit[], wardrobe: WardrobePiece[] = []): OutfitItem[] {
+  const owned = new Set(wardrobe.map(piece => piece.id));
+  return outfits.map(outfit => ({
+    ...outfit,
+    pieces: outfit.pieces?.map(piece =>
+      piece.wardrobeItemId && owned.has(piece.wardrobeItemId)
+        ? piece
+        : { name: piece.name, owned: false }
+    ),
+    id: createOutfitId(),
+  }));
+}
+
+function parseJson(content: string | null | undefined): unknown {
+  if (!content) return null;
+  try {
+    return JSON.parse(content);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Request structured output and validate it. Invalid or partial responses are sent back to the model
+ * with the list of problems, up to MAX_REPAIR_ATTEMPTS times. Returns the best salvaged value when the
+ * repairs run out, or null when nothing usable was produced.
+ */
+async function requestValidated<T>(
+  messages: Message[],
+  responseFormat: typeof outfitListFormat | typeof capsulePlanFormat | typeof extractedInfoFormat,
+  validate: (value: unknown) => Validation<T>,
+  { temperature = 0.9 }: { temperature?: number } = {}
+): Promise<T | null> {
+  const conversation = [...messages];
+  let best: T | null = null;
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const completion = await openai.chat.completions.create({
+      model: selectModel(),
+      messages: conversation,
+      response_format: responseFormat,
+      temperature,
+    });
+    recordUsage('llmTokens', completion.usage?.total_tokens ?? 0);
+
+    const content = completion.choices?.[0]?.message?.content?.trim() ?? '';
+    const parsed = parseJson(content);
+    const { value, errors } = parsed === null
+      ? { value: null, errors: ['Response was not valid JSON'] }
+      : validate(parsed);
+
+    if (value !== null) best = value;
+    if (errors.length === 0) return value;
+
+    console.warn(`Stylist response failed validation (attempt ${attempt + 1}):`, errors);
+    conversation.push(
+      { role: 'assistant', content },
+      { role: 'user', content: `That response had problems:\n- ${errors.join('\n- ')}\nReply again with the complete, corrected JSON.` }
+    );
+  }
+
+  return best;
+}
+
+async function requestOutfits(generationPrompt: string, count: number, wardrobe?: WardrobePiece[]): Promise<OutfitItem[]> {
+  const outfits = await requestValidated(
+    [
+      { role: 'system', content: STYLIST_SYSTEM_PROMPT },
+      { role: 'user', content: generationPrompt },
+    ],
+    outfitListFormat,
+    value => validateOutfitList(value, count)
+  );
+
+  if (!outfits?.length) throw new HttpError(502, 'The stylist could not put together any outfits. Please try again.');
+  return toOutfitItems(outfits, wardrobe);
+}
+
+/**
+ * For refinements, the looks being modified; they are the starting point rather than something to avoid.
+ */
+function buildRefinementInput(params: SuggestionParams, context?: ConversationContext): string {
+  const outfits = context?.plan?.outfits ?? [];
+  if (!params.refinement || !outfits.length) return '';
+
+  return `
+
+The user is refining these looks. Rework them to apply the requested change and keep everything they did not ask to change:
+${describeLooks(outfits)}`;
+}
+
+function suggestionsPrompt(params: SuggestionParams, context?: ConversationContext): string {
+  return `${buildContextInput(params, 4)}${buildRefinementInput(params, context)}
+
+Return a JSON object {"outfits": [...]} with exactly FOUR outfits; each must match this schema:
+${OUTFIT_SCHEMA}`;
+}
+
+/**
+ * Generate four rich outfit suggestions. With a conversation context, refinements rework the looks on screen.
+ */
+export async function generateOutfitSuggestions(
+  params: SuggestionParams,
+  context?: ConversationContext
+): Promise<OutfitItem[]> {
+  return requestOutfits(suggestionsPrompt(params, context), 4, params.wardrobe);
+}
+
+/**
+ * Generate `count` more outfits for the same context, each clearly different from the looks already on screen.
+ */
+async function generateAdditionalOutfits(
+  params: SuggestionParams,
+  currentOutfits: Pick<GeneratedOutfit, 'type' | 'description'>[],
+  count: number
+): Promise<OutfitItem[]> {
+  const existing = describeLooks(currentOutfits);
+
+  const generationPrompt = `${buildContextInput(params, count)}
+
+These outfits are already suggested; the new ${count === 1 ? 'one' : 'ones'} must differ from all of them in silhouette, palette and key pieces:
+${existing || '- (none)'}
+
+Return a JSON object {"outfits": [...]} containing exactly ${count === 1 ? 'ONE outfit' : `${count} outfits`} that ${count === 1 ? 'matches' : 'match'} this schema:
+${OUTFIT_SCHEMA}`;
+
+  return requestOutfits(generationPrompt, count, params.wardrobe);
+}
+
+/**
+ * Generate a single outfit for the same context that is clearly different from the looks already on screen.
+ */
+export async function generateReplacementOutfit(
+  params: SuggestionParams,
+  currentOutfits: Pick<GeneratedOutfit, 'type' | 'description'>[]
+): Promise<OutfitItem> {
+  const [outfit] = await generateAdditionalOutfits(params, currentOutfits, 1);
+  return outfit;
+}
+
+/**
+ * Stream the four suggestions, yielding each outfit as soon as its JSON object is complete and valid.
+ * Outfits that never arrive intact are requested again once the stream ends.
+ */
+export async function* streamOutfitSuggestions(
+  params: SuggestionParams,
+  context?: ConversationContext
+): AsyncGenerator<OutfitItem> {
+  const stream = await openai.chat.completions.create({
+    model: selectModel(),
+    messages: [
+      { role: 'system', content: STYLIST_SYSTEM_PROMPT },
+      { role: 'user', content: suggestionsPrompt(params, context) },
+    ],
+    response_format: outfitListFormat,
+    temperature: 0.9,
+    stream: true,
+    stream_options: { include_usage: true }, // the last chunk reports the tokens used
+  });
+
+  const parser = new OutfitStreamParser();
+  const emitted: OutfitItem[] = [];
+
+  for await (const chunk of stream) {
+    if (chunk.usage) recordUsage('llmTokens', chunk.usage.total_tokens);
+    const delta = chunk.choices?.[0]?.delta?.content;
+    if (!delta) continue;
+
+    for (const candidate of parser.push(delta)) {
+      const { value, errors } = validateGeneratedOutfit(parseJson(candidate), `Outfit ${emitted.length + 1}`);
+      if (!value || emitted.length >= 4) {
+        if (errors.length) console.warn('Dropped streamed outfit:', errors);
+        continue;
+      }
+      const [outfit] = toOutfitItems([value], params.wardrobe);
+      emitted.push(outfit);
+      yield outfit;
+    }
+  }
+
+  if (emitted.length < 4) {
+    console.warn(`Stream produced ${emitted.length} valid outfits; requesting the rest`);
+    yield* await generateAdditionalOutfits(params, emitted, 4 - emitted.length);
+  }
+}
+
+export interface CapsulePlan {
+  capsule: string[];
+  days: { date: string; outfits: OutfitItem[] }[];
+}
+
+/**
+ * Plan a multi-day trip: one small capsule wardrobe and two outfits per forecast day built from it.
+ */
+export async function generateCapsulePlan(
+  params: SuggestionParams,
+  forecasts: ForecastDay[]
+): Promise<CapsulePlan> {
+  const location = forecasts[0]?.location ?? params.weather?.location ?? 'the destination';
+  const dailyForecast = forecasts
+    .map(day => {
+      const kind = day.climatology ? ' [typical climate, not a forecast]' : '';
+      const low = day.temperatureMin !== undefined ? `, low ${formatDegrees(day.temperatureMin, day.units)}` : '';
+      const uv = day.details?.uvIndex !== undefined ? `, UV ${Math.round(day.details.uvIndex)}` : '';
+      return `- ${day.date}${kind}: ${describeTemperature(day.temperature, day.units)}${low}, ${day.description}, ${day.details?.precipitation ?? 0}% chance of rain${uv}`;
+    })
+    .join('\n');
+
+  const generationPrompt = `Plan a capsule wardrobe of 8 to 12 versatile pieces for a ${forecasts.length}-day trip to ${location}.${buildConstraints(params)}${params.event ? ` The trip includes a ${params.event}.` : ''}${params.activity ? ` Planned activity: ${params.activity}.` : ''}
+Daily forecast:
+${dailyForecast}
+
+For EACH day design TWO outfits (day and evening) that reuse capsule pieces; only weather gear may fall outside the capsule.
+Dress the evening outfit for the low, add layers on days with a large day-to-night swing, and include sun protection on days with UV ${HIGH_UV} or more.
+Return a JSON object of this shape:
+{
+  "capsule": string[],          // one entry per piece, e.g. "Navy linen blazer"
+  "days": [{ "date": "yyyy-MM-dd", "outfits": [${OUTFIT_SCHEMA}] }]
+}`;
+
+  const plan = await requestValidated(
+    [
+      { role: 'system', content: STYLIST_SYSTEM_PROMPT },
+      { role: 'user', content: generationPrompt },
+    ],
+    capsulePlanFormat,
+    value => validateCapsulePlan(value, forecasts.map(day => day.date))
+  );
+
+  if (!plan) throw new HttpError(502, 'Could not plan outfits for this trip. Please try again.');
+  return {
+    capsule: plan.capsule,
+    days: plan.days.map(day => ({ date: day.date, outfits: toOutfitItems(day.outfits, params.wardrobe) })),
+  };
+}
@@ -0,0 +1,212 @@
+/*
+ * Wire types shared by the edge functions. They mirror src/types/index.ts in the web app;
+ * keep both in sync when the request or response shapes change.
+ */
+
+export type IntentType =
+  | 'travel'
+  | 'event'
+  | 'lyrics'
+  | 'movie'
+  | 'anime'
+  | 'sports'
+  | 'culture'
+  | 'activity'
+  | 'item';
+
+export type Audience = 'men' | 'women';
+
+export type Occasion = 'day' | 'night' | 'beach' | 'birthday' | 'date' | 'business';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+/**
+ * Raw categories we try to identify from free‑form user input.
+ */
+export interface ExtractedInfo {
+  type: IntentType;
+  // optional granular details
+  destination?: string;
+  date?: string; // ISO formatted if supplied or inferred (yyyy-MM-dd); first day of a date range
+  endDate?: string; // last day of a date range (yyyy-MM-dd), travel only
+  event?: string;
+  lyrics?: string;
+  movie?: string;
+  anime?: string;
+  sports?: string;
+  culture?: string;
+  activity?: string;
+  item?: string;
+  location?: string; // extracted city/region if any
+  refinement?: string; // requested change to the current plan, e.g. "more formal", "swap the shoes"
+  budget?: Budget; // spending limit such as "under $150"
+  raw?: string; // original user message for downstream reference
+}
+
+/**
+ * Price limits for a single product, in one currency.
+ */
+export interface Budget {
+  min?: number;
+  max?: number;
+  currency: string; // ISO 4217 code, e.g. "USD"
+}
+
+export type GenderPresentation = 'masculine' | 'feminine' | 'androgynous';
+
+export type SizeRange = 'petite' | 'regular' | 'tall' | 'plus';
+
+export type Fit = 'slim' | 'regular' | 'relaxed' | 'oversized';
+
+export type Modesty = 'none' | 'moderate' | 'high';
+
+/**
+ * Who the stylist is dressing; loaded from the profiles table for the caller.
+ */
+export interface StyleProfile {
+  genderPresentation?: GenderPresentation;
+  sizes: { tops?: string; bottoms?: string; shoes?: string; dresses?: string };
+  sizeRange?: SizeRange;
+  fits: Fit[];
+  favoriteColors: string[];
+  dislikedItems: string[];
+  modesty?: Modesty;
+  notes?: string;
+}
+
+export type WardrobeCategory = 'top' | 'bottom' | 'dress' | 'outerwear' | 'shoes' | 'accessory';
+
+/**
+ * A garment the caller owns, from the wardrobe_items table.
+ */
+export interface WardrobePiece {
+  id: string;
+  name: string;
+  type: WardrobeCategory;
+  color?: string;
+  tags: string[];
+}
+
+export interface HourlyWeather {
+  time: string; // local time at the destination, e.g. "2025-06-01T14:00"
+  temperature: number;
+  feelsLike: number;
+  precipitation?: number;
+}
+
+/**
+ * The parts of a day's weather the stylist reads. Temperatures are in `units`, imperial when absent.
+ */
+export interface ForecastDay {
+  date: string;
+  location: string;
+  description: string; // e.g. "Clear", "Rain"
+  temperature: number; // daytime high
+  temperatureMin?: number; // overnight low
+  units?: UnitSystem;
+  details?: {
+    feelsLike?: number;
+    feelsLikeMin?: number;
+    precipitation?: number;
+    uvIndex?: number;
+  };
+  sunrise?: string; // local time, e.g. "2025-06-01T05:48"
+  sunset?: string;
+  hourly?: HourlyWeather[];
+  climatology?: boolean;
+}
+
+export interface SuggestionParams {
+  weather?: ForecastDay;
+  event?: string;
+  lyrics?: string;
+  movie?: string;
+  anime?: string;
+  sports?: string;
+  culture?: string;
+  activity?: string;
+  item?: string;
+  audience?: Audience;
+  occasions?: Occasion[];
+  capsule?: string[];
+  refinement?: string;
+  budget?: Budget;
+  profile?: StyleProfile; // set by the edge function from the caller's profile, never by the client
+  wardrobe?: WardrobePiece[]; // set by the edge function from the caller's wardrobe, never by the client
+}
+
+/**
+ * One outfit exactly as the model must produce it.
+ */
+export interface GeneratedOutfit {
+  type: string; // creative outfit title
+  description: string; // Top: ..., Bottom: ..., Shoes: ..., Accessories: ...
+  searchQuery: string; // covers only the pieces the user does not own
+  imagePrompt: string;
+  pieces?: OutfitPiece[];
+}
+
+/**
+ * One piece of a look. Owned pieces come from the user's wardrobe and are never shopped for.
+ */
+export interface OutfitPiece {
+  name: string;
+  owned: boolean;
+  wardrobeItemId?: string;
+}
+
+export interface OutfitItem extends GeneratedOutfit {
+  id: string;
+}
+
+/**
+ * The plan currently on screen, reduced to what the stylist needs to build on it.
+ */
+export interface PlanContext {
+  type: IntentType;
+  destination?: string;
+  date?: string;
+  endDate?: string;
+  event?: string;
+  subject?: string;
+  refinement?: string;
+  outfits: Pick<GeneratedOutfit, 'type' | 'description'>[];
+}
+
+/**
+ * Recent chat turns and the current plan, sent with follow-up messages.
+ */
+export interface ConversationContext {
+  history: { type: 'user' | 'assistant'; content: string }[];
+  plan?: PlanContext;
+}
+
+export interface Price {
+  amount: number; // the price, or the low end of a range
+  maxAmount?: number; // high end of a range such as "$40 - $60"
+  currency: string; // ISO 4217 code, e.g. "USD"
+}
+
+export interface CustomStore {
+  domain: string; // e.g. "everlane.com"
+  name: string;
+}
+
+/**
+ * A user's retailer choices from the store settings screen (store_preferences table).
+ */
+export interface StorePreferences {
+  preferred: string[]; // domains searched and listed first
+  blocked: string[]; // domains never searched
+  custom: CustomStore[];
+  perStoreLimit: number; // products per store, 1 to 6
+}
+
+export interface Product {
+  title: string;
+  link: string;
+  image: string;
+  price: Price | null; // null when the store does not show one
+  store: string;
+  description?: string;
+}
@@ -0,0 +1,129 @@
+/*
+ * Per-user daily usage of the paid upstreams: LLM tokens, Google searches and Unsplash lookups. A
+ * metered request is refused once the caller has used up any of today's allowances (see env.ts), and
+ * what it spends is added to the usage_daily table when it finishes.
+ *
+ * The meter for the current request lives in AsyncLocalStorage, so code deep in the stylist or a
+ * product provider reports usage with `recordUsage` without it being passed down.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { env } from './env.ts';
+import { HttpError } from './http.ts';
+
+export type UsageKind = 'llmTokens' | 'searchCalls' | 'imageCalls';
+
+type Usage = Record<UsageKind, number>;
+
+const LIMIT_NAMES: Record<UsageKind, string> = {
+  llmTokens: 'styling',
+  searchCalls: 'product search',
+  imageCalls: 'image',
+};
+
+const currentUsage = new AsyncLocalStorage<Usage>();
+
+/**
+ * Add to the current request's usage. Outside a metered request this does nothing.
+ */
+export function recordUsage(kind: UsageKind, amount = 1): void {
+  const usage = currentUsage.getStore();
+  if (usage && amount > 0) usage[kind] += amount;
+}
+
+function dailyLimits(): Usage {
+  return {
+    llmTokens: env.dailyLlmTokens(),
+    searchCalls: env.dailySearchCalls(),
+    imageCalls: env.dailyImageCalls(),
+  };
+}
+
+// Usage days run in UTC, so every allowance renews at the next UTC midnight
+function nextReset(now = new Date()): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)).toISOString();
+}
+
+/**
+ * Refuse the request with a 429 when today's limit of any of `kinds` is used up. Requests running in
+ * parallel are only checked against usage already recorded, so they can overshoot a limit by one request each.
+ */
+async function checkLimits(supabase: SupabaseClient, userId: string, kinds: UsageKind[]): Promise<void> {
+  const { data, error } = await supabase
+    .from('usage_daily')
+    .select('llm_tokens, search_calls, image_calls')
+    .eq('user_id', userId)
+    .eq('day', new Date().toISOString().slice(0, 10))
+    .maybeSingle();
+
+  // An unreadable meter should not take the app down with it
+  if (error) {
+    console.error('Could not load usage:', error.message);
+    return;
+  }
+
+  const used: Usage = {
+    llmTokens: data?.llm_tokens ?? 0,
+    searchCalls: data?.search_calls ?? 0,
+    imageCalls: data?.image_calls ?? 0,
+  };
+  const limits = dailyLimits();
+  const reached = kinds.find(kind => limits[kind] > 0 && used[kind] >= limits[kind]);
+  if (!reached) return;
+
+  throw new HttpError(429, `You've reached today's ${LIMIT_NAMES[reached]} limit. It resets at midnight UTC.`, {
+    code: 'usage_limit',
+    limit: reached,
+    resetsAt: nextReset(),
+  });
+}
+
+async function saveUsage(supabase: SupabaseClient, usage: Usage): Promise<void> {
+  if (!usage.llmTokens && !usage.searchCalls && !usage.imageCalls) return;
+
+  const { error } = await supabase.rpc('record_usage', {
+    llm_tokens: usage.llmTokens,
+    search_calls: usage.searchCalls,
+    image_calls: usage.imageCalls,
+  });
+  if (error) console.error('Could not record usage:', error.message, usage);
+}
+
+export interface UsageMeter {
+  /** Run `work` metered; its usage is recorded even when it fails. */
+  run<T>(work: () => Promise<T>): Promise<T>;
+  /** Meter every step of a stream; its usage is recorded once the stream ends or is abandoned. */
+  stream<T>(items: AsyncIterable<T>): AsyncGenerator<T>;
+}
+
+/**
+ * Check the caller's daily limits for the kinds of usage the endpoint spends, so a used-up search
+ * allowance does not block styling, and return a meter for the request's work.
+ */
+export async function startMetering(supabase: SupabaseClient, userId: string, kinds: UsageKind[]): Promise<UsageMeter> {
+  await checkLimits(supabase, userId, kinds);
+  const usage: Usage = { llmTokens: 0, searchCalls: 0, imageCalls: 0 };
+
+  return {
+    async run(work) {
+      try {
+        return await currentUsage.run(usage, work);
+      } finally {
+        await saveUsage(supabase, usage);
+      }
+    },
+    async *stream(items) {
+      const iterator = items[Symbol.asyncIterator]();
+      try {
+        for (;;) {
+          const { value, done } = await currentUsage.run(usage, () => iterator.next());
+          if (done) return;
+          yield value;
+        }
+      } finally {
+        await saveUsage(supabase, usage);
+      }
+    },
+  };
+}
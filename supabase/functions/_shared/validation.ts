@@ -0,0 +1,162 @@
+/*
+ * Runtime checks for model output. Each validator salvages whatever is usable and lists the problems,
+ * which are fed back to the model when a repair retry is requested.
+ */
+
+import { Budget, ExtractedInfo, GeneratedOutfit, IntentType, OutfitPiece } from './types.ts';
+
+export interface Validation<T> {
+  value: T | null;
+  errors: string[];
+}
+
+const INTENT_TYPES: IntentType[] = ['travel', 'event', 'lyrics', 'movie', 'anime', 'sports', 'culture', 'activity', 'item'];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function nonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+export function validateGeneratedOutfit(value: unknown, label: string): Validation<GeneratedOutfit> {
+  if (!isRecord(value)) return { value: null, errors: [`${label} is not an object`] };
+
+  const missing = (['type', 'description', 'searchQuery', 'imagePrompt'] as const)
+    .filter(field => !nonEmptyString(value[field]));
+  if (missing.length > 0) {
+    return { value: null, errors: [`${label} is missing ${missing.join(', ')}`] };
+  }
+
+  return {
+    value: {
+      type: (value.type as string).trim(),
+      description: (value.description as string).trim(),
+      searchQuery: (value.searchQuery as string).trim(),
+      imagePrompt: (value.imagePrompt as string).trim(),
+      pieces: validatePieces(value.pieces),
+    },
+    errors: [],
+  };
+}
+
+/**
+ * The piece breakdown is a convenience on top of the description, so malformed entries are dropped
+ * rather than sent back for repair. Whether a wardrobe id really is the user's is checked by the stylist.
+ */
+function validatePieces(value: unknown): OutfitPiece[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(isRecord).filter(piece => nonEmptyString(piece.name)).map(piece => {
+    const wardrobeItemId = nonEmptyString(piece.wardrobeItemId) ? piece.wardrobeItemId.trim() : undefined;
+    return { name: (piece.name as string).trim(), owned: !!wardrobeItemId, wardrobeItemId };
+  });
+}
+
+/**
+ * Validate `{ "outfits": [...] }`, keeping the valid outfits and flagging a short count.
+ */
+export function validateOutfitList(value: unknown, expected: number): Validation<GeneratedOutfit[]> {
+  const list = isRecord(value) ? value.outfits : undefined;
+  if (!Array.isArray(list)) return { value: null, errors: ['Response must be an object with an "outfits" array'] };
+
+  const errors: string[] = [];
+  const outfits: GeneratedOutfit[] = [];
+  list.forEach((item, index) => {
+    const result = validateGeneratedOutfit(item, `Outfit ${index + 1}`);
+    if (result.value) outfits.push(result.value);
+    errors.push(...result.errors);
+  });
+
+  if (outfits.length < expected) {
+    errors.push(`Expected ${expected} complete outfits but got ${outfits.length}`);
+  }
+
+  return { value: outfits.length > 0 ? outfits.slice(0, expected) : null, errors };
+}
+
+/**
+ * Validate a capsule plan; every requested date needs at least one complete outfit.
+ */
+export function validateCapsulePlan(
+  value: unknown,
+  dates: string[]
+): Validation<{ capsule: string[]; days: { date: string; outfits: GeneratedOutfit[] }[] }> {
+  if (!isRecord(value)) return { value: null, errors: ['Response must be a JSON object'] };
+
+  const errors: string[] = [];
+  const capsule = Array.isArray(value.capsule) ? value.capsule.filter(nonEmptyString) : [];
+  if (capsule.length === 0) errors.push('"capsule" must list the capsule pieces');
+
+  const days = (Array.isArray(value.days) ? value.days : []).filter(isRecord).map((day, dayIndex) => {
+    const outfits: GeneratedOutfit[] = [];
+    (Array.isArray(day.outfits) ? day.outfits : []).forEach((item, index) => {
+      const result = validateGeneratedOutfit(item, `Day ${dayIndex + 1} outfit ${index + 1}`);
+      if (result.value) outfits.push(result.value);
+      errors.push(...result.errors);
+    });
+    return { date: typeof day.date === 'string' ? day.date : '', outfits };
+  });
+
+  const missingDates = dates.filter(date => !days.some(day => day.date === date && day.outfits.length > 0));
+  if (missingDates.length > 0) errors.push(`Missing outfits for ${missingDates.join(', ')}`);
+
+  const usable = days.filter(day => day.outfits.length > 0);
+  return { value: usable.length > 0 ? { capsule, days: usable } : null, errors };
+}
+
+function positiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Keep a budget only when it has at least one usable limit; a missing currency defaults to USD.
+ */
+function validateBudget(value: unknown): Validation<Budget> {
+  if (value === null || value === undefined) return { value: null, errors: [] };
+  if (!isRecord(value)) return { value: null, errors: ['"budget" must be an object or null'] };
+
+  const budget: Budget = {
+    currency: nonEmptyString(value.currency) ? value.currency.trim().toUpperCase() : 'USD',
+  };
+  if (positiveNumber(value.min)) budget.min = value.min;
+  if (positiveNumber(value.max)) budget.max = value.max;
+
+  if (budget.min === undefined && budget.max === undefined) return { value: null, errors: [] };
+  if (budget.min !== undefined && budget.max !== undefined && budget.min > budget.max) {
+    return { value: { currency: budget.currency, max: budget.max }, errors: ['"budget.min" must not exceed "budget.max"'] };
+  }
+  return { value: budget, errors: [] };
+}
+
+export function validateExtractedInfo(value: unknown): Validation<ExtractedInfo> {
+  if (!isRecord(value)) return { value: null, errors: ['Response must be a JSON object'] };
+  if (!INTENT_TYPES.includes(value.type as IntentType)) {
+    return { value: null, errors: [`"type" must be one of ${INTENT_TYPES.join(', ')}`] };
+  }
+
+  // Strict structured output sends every field, using null for the ones that do not apply
+  const info: ExtractedInfo = { type: value.type as IntentType };
+  for (const [key, field] of Object.entries(value)) {
+    if (key !== 'type' && key !== 'budget' && nonEmptyString(field)) (info as unknown as Record<string, string>)[key] = field.trim();
+  }
+
+  // Unusable dates are dropped from the salvaged value so a failed repair still degrades gracefully
+  const errors: string[] = [];
+  if (info.date && !ISO_DATE.test(info.date)) {
+    errors.push('"date" must be yyyy-MM-dd');
+    delete info.date;
+  }
+  if (info.endDate && (!ISO_DATE.test(info.endDate) || (info.date && info.endDate < info.date))) {
+    errors.push('"endDate" must be yyyy-MM-dd and not before "date"');
+    delete info.endDate;
+  }
+  if (info.type === 'travel' && !info.destination && !info.location) errors.push('travel requests need a "destination"');
+
+  const budget = validateBudget(value.budget);
+  if (budget.value) info.budget = budget.value;
+  errors.push(...budget.errors);
+
+  return { value: info, errors };
+}
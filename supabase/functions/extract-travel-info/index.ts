@@ -0,0 +1,31 @@
+/*
+ * POST { message, today, context?, photo? } -> ExtractedInfo
+ */
+
+import { handle, HttpError, jsonResponse, readJson } from '../_shared/http.ts';
+import { requireUserClient } from '../_shared/auth.ts';
+import { extractTravelInfo } from '../_shared/stylist.ts';
+import { ConversationContext } from '../_shared/types.ts';
+import { photoProblem } from '../_shared/photo.ts';
+import { startMetering } from '../_shared/usage.ts';
+
+interface ExtractRequest {
+  message?: string;
+  today?: string; // the user's local date, yyyy-MM-dd, for resolving relative dates
+  context?: ConversationContext; // recent chat turns and the plan on screen, for follow-ups
+  photo?: string; // data URL of a garment or inspiration photo attached in the chat
+}
+
+Deno.serve(handle(async req => {
+  const { user, supabase } = await requireUserClient(req);
+  const { message = '', today, context, photo } = await readJson<ExtractRequest>(req);
+  const problem = photo ? photoProblem(photo) : null;
+  if (problem) throw new HttpError(400, problem);
+  if (!message.trim() && !photo) throw new HttpError(400, 'Please provide a valid input');
+
+  const usage = await startMetering(supabase, user.id, ['llmTokens']);
+  const info = await usage.run(() =>
+    extractTravelInfo(message, today || new Date().toISOString().slice(0, 10), context, photo)
+  );
+  return jsonResponse(info);
+}));
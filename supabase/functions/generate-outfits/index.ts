@@ -0,0 +1,54 @@
+/*
+ * POST { mode: 'suggestions', params, context? }           -> OutfitItem[]
+ * POST { mode: 'suggestions', params, context?, stream: true } -> NDJSON lines of { outfit } (or a final { error })
+ * POST { mode: 'replacement', params, currentOutfits }     -> OutfitItem
+ * POST { mode: 'capsule', params, forecasts }              -> CapsulePlan
+ *
+ * Every mode answers 429 with { code: 'usage_limit' } once the caller's daily allowance is used up.
+ */
+
+import { handle, HttpError, jsonResponse, ndjsonResponse, readJson } from '../_shared/http.ts';
+import { requireUserClient } from '../_shared/auth.ts';
+import { loadStyleProfile, loadWardrobe } from '../_shared/preferences.ts';
+import {
+  generateCapsulePlan,
+  generateOutfitSuggestions,
+  generateReplacementOutfit,
+  streamOutfitSuggestions,
+} from '../_shared/stylist.ts';
+import { ConversationContext, ForecastDay, GeneratedOutfit, OutfitItem, SuggestionParams } from '../_shared/types.ts';
+import { startMetering } from '../_shared/usage.ts';
+
+type GenerateRequest =
+  | { mode: 'suggestions'; params: SuggestionParams; context?: ConversationContext; stream?: boolean }
+  | { mode: 'replacement'; params: SuggestionParams; currentOutfits: Pick<GeneratedOutfit, 'type' | 'description'>[] }
+  | { mode: 'capsule'; params: SuggestionParams; forecasts: ForecastDay[] };
+
+async function* wrapOutfits(outfits: AsyncIterable<OutfitItem>) {
+  for await (const outfit of outfits) yield { outfit };
+}
+
+Deno.serve(handle(async req => {
+  const { user, supabase } = await requireUserClient(req);
+  const body = await readJson<GenerateRequest>(req);
+  // The style profile and wardrobe always come from the caller's own rows, whatever the request carries
+  const [usage, profile, wardrobe] = await Promise.all([
+    startMetering(supabase, user.id, ['llmTokens']),
+    loadStyleProfile(supabase, user.id),
+    loadWardrobe(supabase, user.id),
+  ]);
+  const params: SuggestionParams = { ...body.params, profile, wardrobe };
+
+  switch (body.mode) {
+    case 'suggestions':
+      if (body.stream) return ndjsonResponse(wrapOutfits(usage.stream(streamOutfitSuggestions(params, body.context))));
+      return jsonResponse(await usage.run(() => generateOutfitSuggestions(params, body.context)));
+    case 'replacement':
+      return jsonResponse(await usage.run(() => generateReplacementOutfit(params, body.currentOutfits ?? [])));
+    case 'capsule':
+      if (!body.forecasts?.length) throw new HttpError(400, 'A trip needs at least one forecast day');
+      return jsonResponse(await usage.run(() => generateCapsulePlan(params, body.forecasts)));
+    default:
+      throw new HttpError(400, 'Unknown generation mode');
+  }
+}));
@@ -0,0 +1,31 @@
+/*
+ * POST { outfit, options } -> Product[]
+ *
+ * The caller's saved store preferences and style profile are applied on top of `options`. Pieces of the
+ * outfit marked as owned are not searched for. Answers 429 with { code: 'usage_limit' } once the caller's
+ * daily allowance is used up.
+ */
+
+import { handle, HttpError, jsonResponse, readJson } from '../_shared/http.ts';
+import { requireUserClient } from '../_shared/auth.ts';
+import { loadStorePreferences, loadStyleProfile } from '../_shared/preferences.ts';
+import { ProductQuery, SearchOptions, searchProducts } from '../_shared/shopping.ts';
+import { startMetering } from '../_shared/usage.ts';
+
+interface SearchRequest {
+  outfit?: ProductQuery;
+  options?: Omit<SearchOptions, 'stores' | 'profile'>;
+}
+
+Deno.serve(handle(async req => {
+  const { user, supabase } = await requireUserClient(req);
+  const { outfit, options } = await readJson<SearchRequest>(req);
+  if (!outfit?.searchQuery) throw new HttpError(400, 'An outfit with a searchQuery is required');
+
+  const [usage, stores, profile] = await Promise.all([
+    startMetering(supabase, user.id, ['searchCalls', 'imageCalls']),
+    loadStorePreferences(supabase, user.id),
+    loadStyleProfile(supabase, user.id),
+  ]);
+  return jsonResponse(await usage.run(() => searchProducts(outfit, { ...options, stores, profile })));
+}));
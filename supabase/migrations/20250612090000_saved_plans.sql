@@ -0,0 +1,64 @@
+/*
+  # Create saved plans table
+
+  1. New Tables
+    - `saved_plans`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `plan_id` (text, the id the client gave the plan; unique per user)
+      - `type` (text, the plan's intent type)
+      - `title` (text, destination, event or subject shown in the history list)
+      - `plan_date` (date, first day of a travel plan, if any)
+      - `plan` (jsonb, the full TravelPlan with weather, outfits and products)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `saved_plans` table
+    - Add policy for authenticated users to read their own plans
+    - Add policy for authenticated users to create their own plans
+    - Add policy for authenticated users to update their own plans
+    - Add policy for authenticated users to delete their own plans
+*/
+
+CREATE TABLE IF NOT EXISTS saved_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users NOT NULL,
+  plan_id text NOT NULL,
+  type text NOT NULL,
+  title text NOT NULL,
+  plan_date date,
+  plan jsonb NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, plan_id)
+);
+
+CREATE INDEX IF NOT EXISTS saved_plans_user_created_idx ON saved_plans (user_id, created_at DESC);
+
+ALTER TABLE saved_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own plans"
+  ON saved_plans
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own plans"
+  ON saved_plans
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own plans"
+  ON saved_plans
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own plans"
+  ON saved_plans
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,48 @@
+/*
+  # Create store preferences table
+
+  1. New Tables
+    - `store_preferences`
+      - `user_id` (uuid, primary key, references auth.users)
+      - `preferred_stores` (text[], partner or custom domains searched first)
+      - `blocked_stores` (text[], domains never searched)
+      - `custom_stores` (jsonb, extra retailers as [{ "domain": ..., "name": ... }])
+      - `per_store_limit` (integer, products shown per store, 1 to 6)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `store_preferences` table
+    - Add policy for authenticated users to read their own preferences
+    - Add policy for authenticated users to create their own preferences
+    - Add policy for authenticated users to update their own preferences
+*/
+
+CREATE TABLE IF NOT EXISTS store_preferences (
+  user_id uuid PRIMARY KEY REFERENCES auth.users ON DELETE CASCADE,
+  preferred_stores text[] NOT NULL DEFAULT '{}',
+  blocked_stores text[] NOT NULL DEFAULT '{}',
+  custom_stores jsonb NOT NULL DEFAULT '[]'::jsonb,
+  per_store_limit integer NOT NULL DEFAULT 1 CHECK (per_store_limit BETWEEN 1 AND 6),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE store_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own store preferences"
+  ON store_preferences
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own store preferences"
+  ON store_preferences
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own store preferences"
+  ON store_preferences
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,56 @@
+/*
+  # Create profiles table
+
+  1. New Tables
+    - `profiles`
+      - `id` (uuid, primary key, references auth.users)
+      - `gender_presentation` (text, 'masculine', 'feminine' or 'androgynous')
+      - `sizes` (jsonb, e.g. { "tops": "M", "bottoms": "32", "shoes": "10", "dresses": "8" })
+      - `size_range` (text, 'petite', 'regular', 'tall' or 'plus')
+      - `fits` (text[], preferred fits such as 'slim' or 'relaxed')
+      - `favorite_colors` (text[])
+      - `disliked_items` (text[], pieces the stylist must avoid)
+      - `modesty` (text, 'none', 'moderate' or 'high')
+      - `notes` (text, anything else the stylist should know)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `profiles` table
+    - Add policy for authenticated users to read their own profile
+    - Add policy for authenticated users to create their own profile
+    - Add policy for authenticated users to update their own profile
+*/
+
+CREATE TABLE IF NOT EXISTS profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users ON DELETE CASCADE,
+  gender_presentation text CHECK (gender_presentation IN ('masculine', 'feminine', 'androgynous')),
+  sizes jsonb NOT NULL DEFAULT '{}'::jsonb,
+  size_range text CHECK (size_range IN ('petite', 'regular', 'tall', 'plus')),
+  fits text[] NOT NULL DEFAULT '{}',
+  favorite_colors text[] NOT NULL DEFAULT '{}',
+  disliked_items text[] NOT NULL DEFAULT '{}',
+  modesty text CHECK (modesty IN ('none', 'moderate', 'high')),
+  notes text,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own profile"
+  ON profiles
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = id);
+
+CREATE POLICY "Users can create own profile"
+  ON profiles
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = id);
+
+CREATE POLICY "Users can update own profile"
+  ON profiles
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = id)
+  WITH CHECK (auth.uid() = id);
@@ -0,0 +1,57 @@
+/*
+  # Create wishlist items table
+
+  1. New Tables
+    - `wishlist_items`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `kind` (text, either 'product' or 'outfit')
+      - `item_key` (text, product URL or outfit id; unique per user so an item is saved once)
+      - `outfit_title` (text, the look the item was saved from, for grouping)
+      - `store` (text, the product's store, for grouping; null for outfits)
+      - `product` (jsonb, snapshot of the Product for product items)
+      - `outfit` (jsonb, snapshot of the outfit and its products for outfit items)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `wishlist_items` table
+    - Add policy for authenticated users to read their own items
+    - Add policy for authenticated users to create their own items
+    - Add policy for authenticated users to delete their own items
+
+  Items are snapshots, so they stay available after the plan that produced them is deleted.
+*/
+
+CREATE TABLE IF NOT EXISTS wishlist_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('product', 'outfit')),
+  item_key text NOT NULL,
+  outfit_title text NOT NULL,
+  store text,
+  product jsonb,
+  outfit jsonb,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, item_key),
+  CHECK ((kind = 'product' AND product IS NOT NULL) OR (kind = 'outfit' AND outfit IS NOT NULL))
+);
+
+ALTER TABLE wishlist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own wishlist items"
+  ON wishlist_items
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own wishlist items"
+  ON wishlist_items
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own wishlist items"
+  ON wishlist_items
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
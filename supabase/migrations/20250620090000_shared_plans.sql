@@ -0,0 +1,75 @@
+/*
+  # Create shared plans table
+
+  1. New Tables
+    - `shared_plans`
+      - `id` (uuid, primary key; the random id in the public /share/<id> link)
+      - `user_id` (uuid, references auth.users)
+      - `plan_id` (text, the id the client gave the plan; one link per plan and user)
+      - `title` (text, destination, event or subject shown on the shared page)
+      - `plan` (jsonb, read-only snapshot of the TravelPlan with weather, outfits and products)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `shared_plans` table
+    - Add policy for authenticated users to read their own links
+    - Add policy for authenticated users to create their own links
+    - Add policy for authenticated users to update their own links
+    - Add policy for authenticated users to delete (revoke) their own links
+    - Add `get_shared_plan(share_id)` for anonymous access to a single link
+
+  Visitors never get SELECT on the table, so links cannot be listed; they can only be opened
+  by someone who knows the id. Revoking a link deletes its row.
+*/
+
+CREATE TABLE IF NOT EXISTS shared_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users NOT NULL,
+  plan_id text NOT NULL,
+  title text NOT NULL,
+  plan jsonb NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, plan_id)
+);
+
+ALTER TABLE shared_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own shared plans"
+  ON shared_plans
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own shared plans"
+  ON shared_plans
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own shared plans"
+  ON shared_plans
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own shared plans"
+  ON shared_plans
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION get_shared_plan(share_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT plan FROM shared_plans WHERE id = share_id;
+$$;
+
+REVOKE ALL ON FUNCTION get_shared_plan(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_shared_plan(uuid) TO anon, authenticated;
@@ -0,0 +1,49 @@
+/*
+  # Create packing checklists table
+
+  1. New Tables
+    - `packing_checklists`
+      - `user_id` (uuid, references auth.users)
+      - `plan_id` (text, the id the client gave the plan, as in saved_plans)
+      - `checked` (text[], keys of the packing list items that were checked off)
+      - `updated_at` (timestamp)
+      - primary key (`user_id`, `plan_id`)
+
+  2. Security
+    - Enable RLS on `packing_checklists` table
+    - Add policy for authenticated users to read their own checklists
+    - Add policy for authenticated users to create their own checklists
+    - Add policy for authenticated users to update their own checklists
+
+  The list itself is derived from the plan's outfits and weather on the client; only the checked
+  state is stored.
+*/
+
+CREATE TABLE IF NOT EXISTS packing_checklists (
+  user_id uuid REFERENCES auth.users NOT NULL,
+  plan_id text NOT NULL,
+  checked text[] NOT NULL DEFAULT '{}',
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, plan_id)
+);
+
+ALTER TABLE packing_checklists ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own packing checklists"
+  ON packing_checklists
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own packing checklists"
+  ON packing_checklists
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own packing checklists"
+  ON packing_checklists
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,84 @@
+/*
+  # Create wardrobe items table and photo bucket
+
+  1. New Tables
+    - `wardrobe_items`
+      - `id` (uuid, primary key; the stylist refers to owned pieces by this id)
+      - `user_id` (uuid, references auth.users)
+      - `name` (text, e.g. "navy linen blazer")
+      - `type` (text, 'top', 'bottom', 'dress', 'outerwear', 'shoes' or 'accessory')
+      - `color` (text)
+      - `tags` (text[], free-form, e.g. 'formal', 'summer')
+      - `image_path` (text, object path in the `wardrobe` bucket)
+      - `created_at` (timestamp)
+
+  2. Storage
+    - Private `wardrobe` bucket; photos live under `<user id>/`
+
+  3. Security
+    - Enable RLS on `wardrobe_items` table
+    - Add policies for authenticated users to read, create, update and delete their own items
+    - Add policies for authenticated users to read, upload and delete photos in their own folder
+*/
+
+CREATE TABLE IF NOT EXISTS wardrobe_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users NOT NULL,
+  name text NOT NULL,
+  type text NOT NULL CHECK (type IN ('top', 'bottom', 'dress', 'outerwear', 'shoes', 'accessory')),
+  color text,
+  tags text[] NOT NULL DEFAULT '{}',
+  image_path text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS wardrobe_items_user_created_idx ON wardrobe_items (user_id, created_at DESC);
+
+ALTER TABLE wardrobe_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own wardrobe items"
+  ON wardrobe_items
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own wardrobe items"
+  ON wardrobe_items
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own wardrobe items"
+  ON wardrobe_items
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own wardrobe items"
+  ON wardrobe_items
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('wardrobe', 'wardrobe', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can read own wardrobe photos"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'wardrobe' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can upload own wardrobe photos"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'wardrobe' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete own wardrobe photos"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'wardrobe' AND (storage.foldername(name))[1] = auth.uid()::text);
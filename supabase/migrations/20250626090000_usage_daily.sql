@@ -0,0 +1,64 @@
+/*
+  # Create usage_daily table
+
+  1. New Tables
+    - `usage_daily`
+      - `user_id` (uuid, references auth.users)
+      - `day` (date, UTC day the usage belongs to)
+      - `llm_tokens` (bigint, OpenAI tokens used by chat, outfit and trip requests)
+      - `search_calls` (integer, Google Custom Search queries)
+      - `image_calls` (integer, Unsplash searches)
+      - `updated_at` (timestamp)
+      - Primary key on (`user_id`, `day`)
+
+  2. Security
+    - Enable RLS on `usage_daily` table
+    - Add policy for authenticated users to read their own usage
+    - Add `record_usage(llm_tokens, search_calls, image_calls)`, which adds to the caller's usage
+      for the current day
+
+  Users cannot write the table directly, so they cannot lower their own usage; `record_usage` only
+  ever adds. The daily limits are set on the edge functions (USAGE_DAILY_* variables).
+*/
+
+CREATE TABLE IF NOT EXISTS usage_daily (
+  user_id uuid REFERENCES auth.users NOT NULL,
+  day date NOT NULL DEFAULT (now() AT TIME ZONE 'utc')::date,
+  llm_tokens bigint NOT NULL DEFAULT 0,
+  search_calls integer NOT NULL DEFAULT 0,
+  image_calls integer NOT NULL DEFAULT 0,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, day)
+);
+
+ALTER TABLE usage_daily ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own usage"
+  ON usage_daily
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION record_usage(llm_tokens bigint, search_calls integer, image_calls integer)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO usage_daily AS usage (user_id, day, llm_tokens, search_calls, image_calls)
+  VALUES (
+    auth.uid(),
+    (now() AT TIME ZONE 'utc')::date,
+    greatest(record_usage.llm_tokens, 0),
+    greatest(record_usage.search_calls, 0),
+    greatest(record_usage.image_calls, 0)
+  )
+  ON CONFLICT (user_id, day) DO UPDATE SET
+    llm_tokens = usage.llm_tokens + excluded.llm_tokens,
+    search_calls = usage.search_calls + excluded.search_calls,
+    image_calls = usage.image_calls + excluded.image_calls,
+    updated_at = now();
+$$;
+
+REVOKE ALL ON FUNCTION record_usage(bigint, integer, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_usage(bigint, integer, integer) TO authenticated;
@@ -0,0 +1,14 @@
+/*
+  # Remove uploaded photos from shared plans
+
+  1. Changes
+    - Drop the `photo` key from every `shared_plans.plan` snapshot
+
+  2. Security
+    - Shared snapshots are readable by anyone with the link through `get_shared_plan`, so the photo a
+      user styled a plan around must not be part of them. New snapshots are published without it.
+*/
+
+UPDATE shared_plans
+SET plan = plan - 'photo'
+WHERE plan ? 'photo';
@@ -0,0 +1,16 @@
+/*
+  # Limit wardrobe photo uploads
+
+  1. Storage
+    - `wardrobe` bucket only accepts JPEG, PNG, WebP and GIF images
+    - `wardrobe` bucket rejects files over 5 MB
+
+  The app checks the same limits before uploading (src/services/wardrobe.ts); the bucket enforces
+  them for uploads that skip the app.
+*/
+
+UPDATE storage.buckets
+SET
+  file_size_limit = 5242880,
+  allowed_mime_types = ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+WHERE id = 'wardrobe';
@@ -0,0 +1,136 @@
+/*
+ * Stand-in for OpenAI, Google Custom Search and Unsplash so the edge functions run offline:
+ *
+ *   deno run --allow-net --allow-env --allow-read supabase/stubs/upstreams.ts
+ *   supabase functions serve --env-file supabase/stubs/functions.env
+ *
+ * Responses are canned but shaped like the real APIs, and they follow the prompt closely enough
+ * (outfit counts, trip dates) to exercise every code path.
+ */
+
+const PORT = Number(Deno.env.get('STUB_PORT') ?? 8787);
+
+// The first wardrobe piece listed in the prompt, as "- [<id>] <name> (...)", stands in for the top
+type OwnedPiece = { id: string; name: string } | undefined;
+
+const outfit = (n: number, owned?: OwnedPiece) => {
+  const top = owned?.name ?? `Stub shirt ${n}`;
+  return {
+    type: `Stub Look ${n}`,
+    description: `Top: ${top}, Bottom: Stub trousers ${n}, Shoes: Stub sneakers ${n}, Accessories: Stub tote ${n}`,
+    searchQuery: `stub outfit ${n}`,
+    imagePrompt: `street style portrait wearing stub outfit ${n}`,
+    pieces: [
+      { name: top, wardrobeItemId: owned?.id ?? null },
+      { name: `Stub trousers ${n}`, wardrobeItemId: null },
+      { name: `Stub sneakers ${n}`, wardrobeItemId: null },
+      { name: `Stub tote ${n}`, wardrobeItemId: null },
+    ],
+  };
+};
+
+const EMPTY_INFO = {
+  destination: null, date: null, endDate: null, event: null, lyrics: null, movie: null,
+  anime: null, sports: null, culture: null, activity: null, item: null, location: null,
+  refinement: null, budget: null,
+};
+
+function stylistReply(system: string, prompt: string): unknown {
+  if (system.includes('Identify the *primary*')) {
+    const destination = prompt.match(/\b(?:to|in)\s+([A-Z][\w\s]+?)(?:\s+(?:on|from|next|in)\b|[.,!?]|$)/)?.[1];
+    return destination
+      ? { ...EMPTY_INFO, type: 'travel', destination }
+      : { ...EMPTY_INFO, type: 'item', item: prompt };
+  }
+
+  const wardrobeMatch = prompt.match(/^- \[([^\]]+)\] (.+?) \(/m);
+  const owned: OwnedPiece = wardrobeMatch ? { id: wardrobeMatch[1], name: wardrobeMatch[2] } : undefined;
+
+  if (prompt.includes('"capsule"')) {
+    const dates = [...prompt.matchAll(/^- (\d{4}-\d{2}-\d{2})/gm)].map(match => match[1]);
+    return {
+      capsule: ['Stub white tee', 'Stub denim jacket', 'Stub black jeans', 'Stub loafers'],
+      days: dates.map((date, i) => ({ date, outfits: [outfit(i * 2 + 1, owned), outfit(i * 2 + 2, owned)] })),
+    };
+  }
+
+  const count = prompt.includes('exactly ONE outfit') ? 1 : 4;
+  return { outfits: Array.from({ length: count }, (_, i) => outfit(i + 1, owned)) };
+}
+
+// Replays the reply as server-sent events in small deltas, like `stream: true` on the real API
+function streamedCompletion(content: string): Response {
+  const encoder = new TextEncoder();
+  const id = `chatcmpl-stub-${crypto.randomUUID()}`;
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      for (let i = 0; i < content.length; i += 24) {
+        const chunk = {
+          id,
+          object: 'chat.completion.chunk',
+          created: Math.floor(Date.now() / 1000),
+          model: 'stub',
+          choices: [{ index: 0, delta: { content: content.slice(i, i + 24) }, finish_reason: null }],
+        };
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+async function chatCompletion(req: Request): Promise<Response> {
+  const { messages = [], stream = false } = await req.json();
+  const system = messages.find((m: { role: string }) => m.role === 'system')?.content ?? '';
+  // Repair requests append to the conversation, so answer the original (first) user prompt
+  const prompt = messages.find((m: { role: string }) => m.role === 'user')?.content ?? '';
+  const content = JSON.stringify(stylistReply(system, typeof prompt === 'string' ? prompt : ''));
+  if (stream) return streamedCompletion(content);
+
+  return Response.json({
+    id: `chatcmpl-stub-${crypto.randomUUID()}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: 'stub',
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 100, completion_tokens: 200, total_tokens: 300 },
+  });
+}
+
+function customSearch(url: URL): Response {
+  const query = url.searchParams.get('q') ?? '';
+  const stores = ['zara', 'uniqlo', 'hm', 'asos'];
+  return Response.json({
+    items: stores.map((store, i) => ({
+      title: `${query.split(' (')[0]} ${i + 1} | ${store}`,
+      link: `https://www.${store}.com/stub/${i + 1}`,
+      snippet: `Stub product from ${store}. $${(19.99 + i * 10).toFixed(2)}`,
+      pagemap: { cse_image: [{ src: `https://picsum.photos/seed/${store}${i}/400/400` }] },
+    })),
+  });
+}
+
+function unsplashSearch(url: URL): Response {
+  const seed = encodeURIComponent(url.searchParams.get('query') ?? 'outfit');
+  return Response.json({
+    results: [{ urls: { regular: `https://picsum.photos/seed/${seed}/400/600` } }],
+  });
+}
+
+// Serves catalog.csv next to this file for the catalog product provider (PRODUCT_CATALOG_URL)
+async function sampleCatalog(): Promise<Response> {
+  const csv = await Deno.readTextFile(new URL('./catalog.csv', import.meta.url));
+  return new Response(csv, { headers: { 'Content-Type': 'text/csv' } });
+}
+
+Deno.serve({ port: PORT }, req => {
+  const url = new URL(req.url);
+  if (url.pathname.endsWith('/chat/completions')) return chatCompletion(req);
+  if (url.pathname.endsWith('/customsearch/v1')) return customSearch(url);
+  if (url.pathname.endsWith('/search/photos')) return unsplashSearch(url);
+  if (url.pathname === '/catalog.csv') return sampleCatalog();
+  return new Response('Not found', { status: 404 });
+});